@@ -0,0 +1,181 @@
+import type { TypeCodec, PathContext } from './types'
+import { HandleJsonError } from './errors'
+
+type Tagged = { $type: string, value: unknown }
+
+const registry = new Map<string, TypeCodec>()
+
+const TYPED_ARRAYS = [
+  Int8Array, Uint8Array, Uint8ClampedArray, Int16Array, Uint16Array,
+  Int32Array, Uint32Array, Float32Array, Float64Array, BigInt64Array, BigUint64Array
+]
+
+const ERROR_TYPES: Record<string, ErrorConstructor> = {
+  Error, TypeError, RangeError, SyntaxError, ReferenceError, EvalError, URIError
+}
+
+// Wrappers in untrusted input can hold anything, so revivers check the shape before building
+function invalidPayload(name: string): never {
+  throw new HandleJsonError('INVALID_VALUE', `Invalid ${name} value`)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const INTEGER = /^-?\d+$/
+
+/**
+ * Register a codec so `types` can tag and revive its values. Replaces a codec with the same name.
+ * Later registrations are tried first, so they can override the built-ins.
+ */
+export function registerType<T>(codec: TypeCodec<T>): void {
+  registry.delete(codec.name)
+  registry.set(codec.name, codec as TypeCodec)
+}
+
+function isEnabled(name: string, types: boolean | string[]): boolean {
+  return types === true || (Array.isArray(types) && types.includes(name))
+}
+
+/**
+ * Wrap a value as `{ $type, value }` if a registered codec claims it. Returns undefined otherwise.
+ */
+export function encodeType(value: unknown, types: boolean | string[]): Tagged | undefined {
+  if (typeof value !== 'object' && typeof value !== 'bigint') return undefined
+  if (value === null) return undefined
+
+  const codecs = [...registry.values()]
+  for (let i = codecs.length - 1; i >= 0; i--) {
+    const codec = codecs[i]
+    if (isEnabled(codec.name, types) && codec.test(value)) {
+      return { $type: codec.name, value: codec.serialize(value) }
+    }
+  }
+  return undefined
+}
+
+function isTagged(value: unknown): value is Tagged {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  const keys = Object.keys(value)
+  return keys.length === 2 && typeof (value as Tagged).$type === 'string' && 'value' in value
+}
+
+/**
+ * Revive a `{ $type, value }` wrapper with its codec. Unknown or disabled types are left alone.
+ */
+export function decodeType(value: unknown, types: boolean | string[]): unknown {
+  if (!isTagged(value)) return value
+  const codec = registry.get(value.$type)
+  if (!codec || !isEnabled(codec.name, types)) return value
+  return codec.revive(value.value)
+}
+
+/**
+ * Wrap a reviver so tagged values are revived before it sees them.
+ */
+export function createTypeReviver(
+  types: boolean | string[],
+  next?: (key: string, value: unknown, context?: PathContext) => unknown
+): (key: string, value: unknown, context?: PathContext) => unknown {
+  return (key: string, value: unknown, context?: PathContext) => {
+    const revived = decodeType(value, types)
+    return next ? next(key, revived, context) : revived
+  }
+}
+
+registerType<Map<unknown, unknown>>({
+  name: 'Map',
+  test: value => value instanceof Map,
+  serialize: map => [...map.entries()],
+  revive: entries => {
+    if (!Array.isArray(entries) || !entries.every(entry => Array.isArray(entry) && entry.length === 2)) invalidPayload('Map')
+    return new Map(entries as Array<[unknown, unknown]>)
+  }
+})
+
+registerType<Set<unknown>>({
+  name: 'Set',
+  test: value => value instanceof Set,
+  serialize: set => [...set.values()],
+  revive: values => {
+    if (!Array.isArray(values)) invalidPayload('Set')
+    return new Set(values)
+  }
+})
+
+registerType<bigint>({
+  name: 'BigInt',
+  test: value => typeof value === 'bigint',
+  serialize: value => value.toString(),
+  revive: value => {
+    if (typeof value !== 'string' || !INTEGER.test(value)) invalidPayload('BigInt')
+    return BigInt(value)
+  }
+})
+
+registerType<RegExp>({
+  name: 'RegExp',
+  test: value => value instanceof RegExp,
+  serialize: regexp => ({ source: regexp.source, flags: regexp.flags }),
+  revive: value => {
+    if (!isRecord(value) || typeof value.source !== 'string' || typeof value.flags !== 'string') invalidPayload('RegExp')
+    try {
+      return new RegExp(value.source, value.flags)
+    } catch {
+      return invalidPayload('RegExp')
+    }
+  }
+})
+
+registerType<URL>({
+  name: 'URL',
+  test: value => value instanceof URL,
+  serialize: url => url.href,
+  revive: href => {
+    if (typeof href !== 'string') invalidPayload('URL')
+    try {
+      return new URL(href)
+    } catch {
+      return invalidPayload('URL')
+    }
+  }
+})
+
+for (const TypedArray of TYPED_ARRAYS) {
+  const bigint = TypedArray === BigInt64Array || TypedArray === BigUint64Array
+  registerType<ArrayLike<number | bigint>>({
+    name: TypedArray.name,
+    test: value => value instanceof TypedArray,
+    // 64-bit values do not fit in a JSON number, so they are written as strings
+    serialize: array => Array.from(array, item => bigint ? String(item) : item),
+    revive: items => {
+      // A bare number would be taken as a length, allocating memory the input never paid for
+      const valid = Array.isArray(items) && items.every(item => bigint
+        ? typeof item === 'string' && INTEGER.test(item)
+        : typeof item === 'number')
+      if (!valid) invalidPayload(TypedArray.name)
+      return bigint
+        ? new (TypedArray as BigInt64ArrayConstructor)((items as string[]).map(item => BigInt(item)))
+        : new (TypedArray as Float64ArrayConstructor)(items as number[])
+    }
+  })
+}
+
+registerType<Error>({
+  name: 'Error',
+  test: value => value instanceof Error,
+  serialize: error => {
+    const serialized: Record<string, unknown> = { name: error.name, message: error.message }
+    if (error.cause !== undefined) serialized.cause = error.cause
+    return serialized
+  },
+  revive: value => {
+    if (!isRecord(value) || typeof value.name !== 'string' || typeof value.message !== 'string') invalidPayload('Error')
+    const { name, message, cause } = value as { name: string, message: string, cause?: unknown }
+    const ErrorType = ERROR_TYPES[name] ?? Error
+    const error = new ErrorType(message, cause !== undefined ? { cause } : undefined)
+    if (error.name !== name) error.name = name
+    return error
+  }
+})
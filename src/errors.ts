@@ -1,4 +1,188 @@
-export function extractPosition(error: Error): number | undefined {
+import type { HandleJsonErrorCode } from './types'
+
+export type Location = {
+  line: number
+  column: number
+}
+
+/**
+ * Syntax error raised by the built-in scanner, with exact location details.
+ */
+export class JsonSyntaxError extends SyntaxError {
+  readonly position: number
+  readonly line: number
+  readonly column: number
+  readonly expected: string
+  readonly found: string
+
+  constructor(json: string, position: number, expected: string, found: string) {
+    const { line, column } = getLocation(json, position)
+    super(`Unexpected ${found} at line ${line}, column ${column}, expected ${expected}`)
+    this.name = 'JsonSyntaxError'
+    this.position = position
+    this.line = line
+    this.column = column
+    this.expected = expected
+    this.found = found
+  }
+}
+
+/**
+ * Syntax error for a repeated object key when duplicateKeys is 'error'.
+ */
+export class DuplicateKeyError extends JsonSyntaxError {
+  readonly key: string
+  readonly path: string
+  readonly firstPosition: number
+
+  constructor(json: string, position: number, key: string, path: string, firstPosition: number) {
+    super(json, position, 'unique key', `duplicate key '${key}'`)
+    const first = getLocation(json, firstPosition)
+    this.name = 'DuplicateKeyError'
+    this.message += ` (first defined at line ${first.line}, column ${first.column})`
+    this.key = key
+    this.path = path
+    this.firstPosition = firstPosition
+  }
+}
+
+/**
+ * Raised when safeKeys is set to fail on keys that are not allowed.
+ */
+export class UnsafeKeyError extends Error {
+  readonly key: string
+  readonly path: string
+
+  constructor(key: string, path: string) {
+    super(`Unsafe key '${key}' at '${path}'`)
+    this.name = 'UnsafeKeyError'
+    this.key = key
+    this.path = path
+  }
+}
+
+export type ParseLimit =
+  | 'maxSize'
+  | 'maxDepth'
+  | 'maxKeys'
+  | 'maxArrayLength'
+  | 'maxStringLength'
+  | 'maxTotalNodes'
+
+/**
+ * Raised when input exceeds one of the parse limits. Parsing stops at the offending token.
+ */
+export class LimitExceededError extends RangeError {
+  readonly limit: ParseLimit
+  readonly max: number
+  readonly position?: number
+  readonly path?: string
+
+  constructor(message: string, limit: ParseLimit, max: number, position?: number, path?: string) {
+    super(message)
+    this.name = 'LimitExceededError'
+    this.limit = limit
+    this.max = max
+    this.position = position
+    this.path = path
+  }
+}
+
+const LIMIT_CODES: Record<ParseLimit, HandleJsonErrorCode> = {
+  maxSize: 'MAX_SIZE',
+  maxDepth: 'MAX_DEPTH',
+  maxKeys: 'MAX_KEYS',
+  maxArrayLength: 'MAX_ARRAY_LENGTH',
+  maxStringLength: 'MAX_STRING_LENGTH',
+  maxTotalNodes: 'MAX_TOTAL_NODES'
+}
+
+/**
+ * Error returned by the tuple and details APIs. Branch on `code` instead of the message text.
+ */
+export class HandleJsonError extends Error {
+  readonly code: HandleJsonErrorCode
+  readonly path?: string
+  readonly position?: number
+
+  constructor(
+    code: HandleJsonErrorCode,
+    message: string,
+    details?: { path?: string, position?: number, cause?: unknown }
+  ) {
+    super(message, details?.cause !== undefined ? { cause: details.cause } : undefined)
+    this.name = 'HandleJsonError'
+    this.code = code
+    this.path = details?.path
+    this.position = details?.position
+  }
+}
+
+/**
+ * Wrap any thrown value in a HandleJsonError, keeping the original as `cause`.
+ */
+export function toHandleJsonError(error: unknown, fallback: HandleJsonErrorCode = 'UNKNOWN'): HandleJsonError {
+  if (error instanceof HandleJsonError) return error
+  
+  if (error instanceof DuplicateKeyError) {
+    return new HandleJsonError('DUPLICATE_KEY', error.message, { path: error.path, position: error.position, cause: error })
+  }
+  if (error instanceof JsonSyntaxError) {
+    return new HandleJsonError('SYNTAX', error.message, { position: error.position, cause: error })
+  }
+  if (error instanceof LimitExceededError) {
+    return new HandleJsonError(LIMIT_CODES[error.limit], error.message, { path: error.path, position: error.position, cause: error })
+  }
+  if (error instanceof UnsafeKeyError) {
+    return new HandleJsonError('UNSAFE_KEY', error.message, { path: error.path, cause: error })
+  }
+  if (error instanceof SyntaxError) {
+    return new HandleJsonError('SYNTAX', error.message, { position: extractPosition(error), cause: error })
+  }
+  
+  const message = error instanceof Error ? error.message : String(error)
+  return new HandleJsonError(fallback, message, { cause: error })
+}
+
+/**
+ * Convert an offset into a 1-based line and column.
+ */
+export function getLocation(json: string, position: number): Location {
+  let line = 1
+  let lineStart = 0
+  const end = Math.min(position, json.length)
+  
+  for (let i = 0; i < end; i++) {
+    const char = json[i]
+    if (char === '\n' || (char === '\r' && json[i + 1] !== '\n')) {
+      line++
+      lineStart = i + 1
+    }
+  }
+  
+  return { line, column: position - lineStart + 1 }
+}
+
+function getOffset(json: string, line: number, column: number): number | undefined {
+  let currentLine = 1
+  let lineStart = 0
+  
+  for (let i = 0; i < json.length && currentLine < line; i++) {
+    const char = json[i]
+    if (char === '\n' || (char === '\r' && json[i + 1] !== '\n')) {
+      currentLine++
+      lineStart = i + 1
+    }
+  }
+  
+  return currentLine === line ? lineStart + column - 1 : undefined
+}
+
+export function extractPosition(error: Error, json?: string): number | undefined {
+  if (error instanceof JsonSyntaxError || error instanceof LimitExceededError || error instanceof HandleJsonError) {
+    return error.position
+  }
+  
   const message = error?.message ?? ''
   
   // Try to extract position from SyntaxError message
@@ -8,12 +192,10 @@ export function extractPosition(error: Error): number | undefined {
     return parseInt(positionMatch?.[1], 10)
   }
   
-  // Try to extract from "at line X column Y" format
-  const lineMatch = message.match(/line (\d+)/i)
-  if (lineMatch?.[1]) {
-    // Approximate position (not exact, but better than nothing)
-    const line = parseInt(lineMatch[1], 10)
-    return (line - 1) * 80 // Rough estimate
+  // Try to extract from "at line X column Y" format (needs the source to resolve)
+  const lineMatch = message.match(/line (\d+) column (\d+)/i)
+  if (lineMatch?.[1] && lineMatch[2] && json !== undefined) {
+    return getOffset(json, parseInt(lineMatch[1], 10), parseInt(lineMatch[2], 10))
   }
   
   return undefined
@@ -0,0 +1,20 @@
+import type { EscapeMode } from './types'
+
+// U+2028 and U+2029 end lines in older JavaScript, and '</script>' ends the tag the JSON is embedded in
+const HTML_UNSAFE = /[<>&\u2028\u2029]/g
+const NON_ASCII = /[^\x00-\x7f]/g
+
+function toUnicodeEscape(char: string): string {
+  return '\\u' + char.charCodeAt(0).toString(16).padStart(4, '0')
+}
+
+/**
+ * Escape characters in JSON text as `\uXXXX`. Outside strings JSON is plain ASCII without
+ * these characters, so every match is inside a string and the result means the same thing.
+ * Astral characters are matched one code unit at a time, so they become surrogate pair escapes.
+ */
+export function escapeJson(text: string, mode: EscapeMode = 'none'): string {
+  if (mode === 'html') return text.replace(HTML_UNSAFE, toUnicodeEscape)
+  if (mode === 'ascii') return text.replace(NON_ASCII, toUnicodeEscape)
+  return text
+}
@@ -0,0 +1,133 @@
+import type { ParseOptions, ExtractedJson, JsonSyntax } from './types'
+import { parseOrThrow, locateSyntaxError } from './parse'
+import { JsonSyntaxError } from './errors'
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' }
+
+// Where a key or value can start, so a quote after one of these opens a string
+const BEFORE_STRING = new Set(['{', '[', ',', ':'])
+
+// Offset of the quote closing the string that opens at `start`, or -1
+function findStringEnd(text: string, start: number): number {
+  const quote = text[start]
+  let pos = start + 1
+  while (pos < text.length && text[pos] !== quote) {
+    pos += text[pos] === '\\' ? 2 : 1
+  }
+  return pos < text.length ? pos : -1
+}
+
+/**
+ * End offset (exclusive) of every object or array start that closes, skipping strings and comments.
+ * One pass, so text full of brackets that never close stays linear.
+ * Strings and comments only count inside an open bracket: outside one, quotes are just prose.
+ * Inside one, a quote only opens a string where a key or value could start, like `[5" wide]` shows.
+ */
+function findEnds(text: string, syntax: JsonSyntax): Map<number, number> {
+  const ends = new Map<number, number>()
+  // Offsets of the brackets still open
+  const stack: number[] = []
+  // Once a string or comment runs off the end, every later one would too
+  const unterminated = new Set<string>()
+  // Last character outside whitespace, strings and comments
+  let previous = ''
+  let pos = 0
+
+  while (pos < text.length) {
+    const char = text[pos]
+    const next = text[pos + 1]
+
+    const quote = char === '"' || (syntax === 'json5' && char === "'")
+
+    if (stack.length > 0 && quote && BEFORE_STRING.has(previous)) {
+      const end = unterminated.has(char) ? -1 : findStringEnd(text, pos)
+      if (end !== -1) {
+        previous = char
+        pos = end + 1
+        continue
+      }
+      // Nothing open can close now, but a value may still start inside the would-be string
+      unterminated.add(char)
+      stack.length = 0
+    } else if (stack.length > 0 && syntax !== 'json' && char === '/' && next === '/') {
+      const end = text.indexOf('\n', pos)
+      pos = end === -1 ? text.length : end
+      continue
+    } else if (stack.length > 0 && syntax !== 'json' && char === '/' && next === '*') {
+      const end = unterminated.has('*/') ? -1 : text.indexOf('*/', pos + 2)
+      if (end !== -1) {
+        pos = end + 2
+        continue
+      }
+      unterminated.add('*/')
+      stack.length = 0
+    } else if (CLOSERS[char]) {
+      stack.push(pos)
+    } else if (char === '}' || char === ']') {
+      const start = stack.pop()
+      if (start !== undefined && CLOSERS[text[start]] === char) {
+        ends.set(start, pos + 1)
+      } else {
+        // A mismatched closer ends every bracket still open
+        stack.length = 0
+      }
+    }
+    if (char !== ' ' && char !== '\n' && char !== '\r' && char !== '\t') previous = char
+    pos++
+  }
+
+  return ends
+}
+
+// Wrapped so a candidate that parses to a falsy value is still a match. Failures give the syntax error's offset, if any
+function tryCandidate<T>(
+  json: string,
+  options?: Omit<ParseOptions<T>, 'default'>
+): { value: T } | { errorAt: number | undefined } {
+  try {
+    return { value: parseOrThrow(json, options) }
+  } catch (error) {
+    const located = locateSyntaxError(json, error)
+    return { errorAt: located instanceof JsonSyntaxError ? located.position : undefined }
+  }
+}
+
+/**
+ * Find every JSON object or array embedded in text, like chat responses, log lines or HTML.
+ * Each value goes through the same options as `parse`; candidates that fail are skipped.
+ */
+export function extractJson<T = unknown>(
+  text: string,
+  options?: Omit<ParseOptions<T>, 'default'>
+): ExtractedJson<T>[] {
+  const results: ExtractedJson<T>[] = []
+  const ends = findEnds(text, options?.syntax ?? 'json')
+  const opener = /[{[]/g
+  // Syntax errors of failed candidates still ahead, nearest last. A candidate around one would fail at it
+  // the same way, so skipping those keeps nested brackets from being parsed again at every level
+  const errors: number[] = []
+  let pos = 0
+
+  while (pos < text.length) {
+    opener.lastIndex = pos
+    const match = opener.exec(text)
+    if (!match) break
+    pos = match.index
+
+    while (errors.length > 0 && errors[errors.length - 1] <= pos) errors.pop()
+    const end = ends.get(pos)
+    if (end !== undefined && !(errors.length > 0 && errors[errors.length - 1] < end)) {
+      const candidate = tryCandidate(text.slice(pos, end), options)
+      if ('value' in candidate) {
+        results.push({ value: candidate.value, start: pos, end })
+        pos = end
+        continue
+      }
+      if (candidate.errorAt !== undefined) errors.push(pos + candidate.errorAt)
+    }
+    // Not a value here, but one may start inside it
+    pos++
+  }
+
+  return results
+}
@@ -1,24 +1,119 @@
-import type { FormatOptions } from './types'
+import type { FormatOptions, MinifyOptions } from './types'
 import { parse } from './parse'
 import { stringify } from './stringify'
+import { escapeJson } from './escape'
+import { formatDocument } from './tree'
+import { highlight } from './highlight'
 
-export function format(value: unknown, options?: FormatOptions | number): string | null {
-  const space = typeof options === 'number' ? options : options?.space ?? 2
-  
-  if (typeof value === 'string') {
-    const parsed = parse(value)
-    if (parsed === null) return null
-    return stringify(parsed, { space })
+type KeyOrder = (a: string, b: string) => number
+
+// JSON data with objects as Maps, which keep any key order. Plain objects always list integer-like keys first
+type Ordered = string | number | boolean | null | Ordered[] | Map<string, Ordered>
+
+// Copies with keys in order, so the printer only has to walk
+function orderDeep(value: unknown, sortKeys?: boolean | KeyOrder): Ordered {
+  if (Array.isArray(value)) return value.map(item => orderDeep(item, sortKeys))
+  if (typeof value !== 'object' || value === null) return value as Ordered
+
+  const object = value as Record<string, unknown>
+  const keys = Object.keys(object)
+  if (sortKeys) keys.sort(typeof sortKeys === 'function' ? sortKeys : undefined)
+  return new Map(keys.map(key => [key, orderDeep(object[key], sortKeys)]))
+}
+
+// Single-line form, with `comma` and `colon` as separators
+function printFlat(value: Ordered, comma: string, colon: string): string {
+  if (Array.isArray(value)) return `[${value.map(item => printFlat(item, comma, colon)).join(comma)}]`
+  if (!(value instanceof Map)) return JSON.stringify(value)
+  const members = [...value].map(([key, item]) => JSON.stringify(key) + colon + printFlat(item, comma, colon))
+  return `{${members.join(comma)}}`
+}
+
+/**
+ * Print `value` starting at `column`, keeping containers on one line when they fit before `maxLineWidth`.
+ * `reserved` is what follows on the same line, like a comma.
+ */
+function print(value: Ordered, indent: string, level: string, column: number, reserved: number, maxLineWidth: number): string {
+  if (!Array.isArray(value) && !(value instanceof Map)) return JSON.stringify(value)
+
+  const size = Array.isArray(value) ? value.length : value.size
+  if (size === 0) return Array.isArray(value) ? '[]' : '{}'
+
+  // The compact form is shorter than the inline one, so it rules out long values cheaply
+  if (column + printFlat(value, ',', ':').length + reserved <= maxLineWidth) {
+    const inline = printFlat(value, ', ', ': ')
+    if (column + inline.length + reserved <= maxLineWidth) return inline
+  }
+
+  const inner = level + indent
+  if (Array.isArray(value)) {
+    const items = value.map((item, i) => inner + print(item, indent, inner, inner.length, i < size - 1 ? 1 : 0, maxLineWidth))
+    return `[\n${items.join(',\n')}\n${level}]`
   }
-  return stringify(value, { space })
+  const members = [...value].map(([key, item], i) => {
+    const prefix = `${inner}${JSON.stringify(key)}: `
+    return prefix + print(item, indent, inner, prefix.length, i < size - 1 ? 1 : 0, maxLineWidth)
+  })
+  return `{\n${members.join(',\n')}\n${level}}`
 }
 
-export function minify(value: string | unknown): string | null {
+function layout(value: unknown, indent: string, options: FormatOptions): string | null {
+  const { sortKeys, maxLineWidth } = options
+
+  // Plain pretty-printing is exactly what JSON.stringify does
+  if (!sortKeys && maxLineWidth === undefined) return stringify(value, { space: indent, redact: options.redact })
+
+  // Go through stringify first for circular refs, redaction and toJSON, leaving plain JSON data
+  const json = stringify(value, { redact: options.redact })
+  if (json === null || json === undefined) return json
+
+  const data = orderDeep(JSON.parse(json), sortKeys)
+  if (!indent) return printFlat(data, ',', ':')
+  return print(data, indent, '', 0, 0, maxLineWidth ?? 0)
+}
+
+function toIndent(space: number | string): string {
+  // Same limits as JSON.stringify
+  return typeof space === 'number' ? ' '.repeat(Math.min(10, Math.max(0, Math.floor(space)))) : space.slice(0, 10)
+}
+
+/**
+ * Pretty-print a value or JSON string. Returns null on invalid input.
+ */
+export function format(value: unknown, options?: FormatOptions | number | string): string | null {
+  const settings: FormatOptions = typeof options === 'object' && options !== null ? options : { space: options }
+  const indent = toIndent(settings.space ?? 2)
+
+  const { syntax } = settings
+  let laidOut: string | null | undefined
+  if (typeof value === 'string' && syntax && syntax !== 'json' && !settings.sortKeys && !settings.redact && settings.maxLineWidth === undefined) {
+    // Work on the text itself so comments survive
+    try {
+      laidOut = formatDocument(value, syntax, indent)
+    } catch {
+      return null
+    }
+  } else {
+    const input = typeof value === 'string' ? parse(value, { syntax }) : value
+    if (input === null) return null
+    laidOut = layout(input, indent, settings)
+  }
+
+  if (laidOut === null || laidOut === undefined) return laidOut
+  const result = escapeJson(laidOut, settings.escape)
+
+  // JSON escapes newlines inside strings, so every '\n' here is a line break
+  const eol = settings.eol ?? '\n'
+  const lines = eol === '\n' ? result : result.replace(/\n/g, eol)
+  const text = settings.highlight ? highlight(lines, settings.highlight) : lines
+  return settings.trailingNewline ? text + eol : text
+}
+
+export function minify(value: string | unknown, options?: MinifyOptions): string | null {
   if (typeof value === 'string') {
     const parsed = parse(value)
     if (parsed === null) return null
-    return stringify(parsed)
+    return stringify(parsed, options)
   }
-  return stringify(value)
+  return stringify(value, options)
 }
-
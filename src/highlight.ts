@@ -0,0 +1,110 @@
+import type { HighlightMode, HighlightOptions, HighlightTheme, HighlightToken } from './types'
+
+// SGR parameters for terminals
+const ANSI_THEME: Required<HighlightTheme> = {
+  key: '34',
+  string: '32',
+  number: '33',
+  boolean: '35',
+  null: '90',
+  punctuation: '',
+  comment: '2',
+  error: '41;97'
+}
+
+// Class names for HTML
+const HTML_THEME: Required<HighlightTheme> = {
+  key: 'json-key',
+  string: 'json-string',
+  number: 'json-number',
+  boolean: 'json-boolean',
+  null: 'json-null',
+  punctuation: 'json-punctuation',
+  comment: 'json-comment',
+  error: 'json-error'
+}
+
+// Lenient on purpose, so text with a syntax error still gets coloured up to and past the error
+const TOKEN = /\s+|\/\/[^\n\r]*|\/\*[\s\S]*?(?:\*\/|$)|"(?:[^"\\\n\r]|\\.)*"?|'(?:[^'\\\n\r]|\\.)*'?|[-+]?(?:Infinity|NaN)\b|[-+]?\.?\d[\w.+-]*|[{}[\]:,]|[\p{L}_$][\p{L}\p{N}_$]*|[\s\S]/uy
+
+type Piece = {
+  text: string
+  start: number
+  kind?: HighlightToken
+}
+
+function classify(text: string): HighlightToken | undefined {
+  if (text.startsWith('//') || text.startsWith('/*')) return 'comment'
+  if (text[0] === '"' || text[0] === "'") return 'string'
+  if (/^[-+]?(\d|\.\d|Infinity$|NaN$)/.test(text)) return 'number'
+  if (text === 'true' || text === 'false') return 'boolean'
+  if (text === 'null') return 'null'
+  if ('{}[]:,'.includes(text)) return 'punctuation'
+  return undefined
+}
+
+function tokenize(text: string): Piece[] {
+  const pieces: Piece[] = []
+  TOKEN.lastIndex = 0
+  for (let match = TOKEN.exec(text); match; match = TOKEN.exec(text)) {
+    pieces.push({ text: match[0], start: match.index, kind: /^\s/.test(match[0]) ? undefined : classify(match[0]) })
+  }
+
+  // Strings and bare names before a ':' are keys
+  for (let i = 0; i < pieces.length; i++) {
+    const piece = pieces[i]
+    if (piece.kind !== 'string' && (piece.kind !== undefined || !/^[\p{L}_$]/u.test(piece.text))) continue
+    let next = i + 1
+    while (next < pieces.length && (pieces[next].kind === 'comment' || /^\s/.test(pieces[next].text))) next++
+    if (pieces[next]?.text === ':') piece.kind = 'key'
+  }
+  return pieces
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char])
+}
+
+function paint(text: string, style: string, mode: HighlightMode): string {
+  if (mode === 'html') {
+    const escaped = escapeHtml(text)
+    return style ? `<span class="${escapeHtml(style)}">${escaped}</span>` : escaped
+  }
+  return style ? `\x1b[${style}m${text}\x1b[0m` : text
+}
+
+/**
+ * Colour JSON text for a terminal ('ansi', the default) or a web page ('html').
+ * Also takes JSONC and JSON5, and text that does not parse. Pass `error` to mark where parsing failed.
+ */
+export function highlight(text: string, options?: HighlightOptions | HighlightMode): string {
+  const settings: HighlightOptions = typeof options === 'string' ? { mode: options } : options ?? {}
+  const mode = settings.mode ?? 'ansi'
+  const theme = { ...(mode === 'html' ? HTML_THEME : ANSI_THEME), ...settings.theme }
+  const error = typeof settings.error === 'number' ? settings.error : settings.error?.position
+
+  let output = ''
+  let marked = false
+  for (const piece of tokenize(text)) {
+    let kind = piece.kind
+    if (error !== undefined && !marked && error < piece.start + piece.text.length) {
+      // The token the error points at, or the character if it points at whitespace
+      marked = true
+      if (/^\s/.test(piece.text)) {
+        const at = Math.max(0, error - piece.start)
+        output += piece.text.slice(0, at) + paint(piece.text[at], theme.error, mode) + piece.text.slice(at + 1)
+        continue
+      }
+      kind = 'error'
+    }
+    output += kind ? paint(piece.text, theme[kind], mode) : mode === 'html' ? escapeHtml(piece.text) : piece.text
+  }
+
+  // Errors at the end of input point past the last character
+  if (error !== undefined && !marked) output += paint(' ', theme.error, mode)
+  return output
+}
@@ -1,12 +1,25 @@
-import type { Schema, ValidationResult } from './types'
-import { validate } from './validate'
+import type { Schema, ValidateOptions, ValidationResult, ValidationResults } from './types'
+import { validate, validateAll } from './validate'
 
 export { parse, tryParse, parseWithDetails, isValid } from './parse'
-export { stringify, tryStringify } from './stringify'
+export { stringify, tryStringify, canonicalize } from './stringify'
 export { format, minify } from './format'
-export { parseStream } from './stream'
+export { highlight } from './highlight'
+export { parseStream, stringifyStream, stringifyChunks } from './stream'
+export { repair } from './repair'
+export { extractJson } from './extract'
+export { parseTree, modify, remove, applyEdits } from './tree'
+export { HandleJsonError } from './errors'
+export { registerType } from './codecs'
+export { union, literal, enumOf, nullable } from './schema'
 
-export function tryValidate(value: unknown, schema: Schema): ValidationResult {
+/**
+ * Check a value against a schema. With `abortEarly: false`, returns every error instead of the first.
+ */
+export function tryValidate(value: unknown, schema: Schema, options: ValidateOptions & { abortEarly: false }): ValidationResults
+export function tryValidate(value: unknown, schema: Schema, options?: ValidateOptions): ValidationResult
+export function tryValidate(value: unknown, schema: Schema, options?: ValidateOptions): ValidationResult | ValidationResults {
+  if (options?.abortEarly === false) return validateAll(value, schema, options.maxErrors)
   return validate(value, schema)
 }
 
@@ -14,15 +27,53 @@ export type {
   ParseOptions, 
   StringifyOptions, 
   FormatOptions,
+  MinifyOptions,
   ParseResult,
   ParseResultWithDetails,
   StringifyResult,
+  StringifyDetails,
   Schema,
   SchemaType,
   SchemaValue,
+  SchemaLiteral,
+  SchemaRule,
+  SchemaConstruct,
   ValidationResult,
+  ValidationResults,
+  ValidateOptions,
   ValidationError,
   StreamParseOptions,
   StreamParseResult,
-  DateSerializationMode
+  StringifyStreamOptions,
+  DateSerializationMode,
+  ReferenceMode,
+  DateFormat,
+  DateRules,
+  JsonSyntax,
+  NumberMode,
+  BigIntSerializationMode,
+  EscapeMode,
+  DuplicateKeyMode,
+  DuplicateKeyDetails,
+  SizeEncoding,
+  SafeKeysOptions,
+  UnsafeKeyAction,
+  RepairEdit,
+  RepairResult,
+  ExtractedJson,
+  HandleJsonErrorCode,
+  PathContext,
+  PathCallback,
+  TypeCodec,
+  RedactMatcher,
+  RedactReplacement,
+  RedactOptions,
+  JsonNode,
+  JsonNodeType,
+  TextEdit,
+  EditOptions,
+  HighlightMode,
+  HighlightToken,
+  HighlightTheme,
+  HighlightOptions
 } from './types'
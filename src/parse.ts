@@ -1,114 +1,293 @@
-import type { ParseOptions, ParseResult, ParseResultWithDetails, DateSerializationMode } from './types'
-import { validate } from './validate'
-import { extractPosition, getContext, formatError } from './errors'
+import type { ParseOptions, ParseResult, ParseResultWithDetails, DateFormat, DateRules, JsonSyntax, SizeEncoding, SafeKeysOptions, PathContext, ValidationError } from './types'
+import { validate, validateAll } from './validate'
+import { getContext, formatError, toHandleJsonError, HandleJsonError, JsonSyntaxError, DuplicateKeyError, LimitExceededError, UnsafeKeyError } from './errors'
+import { parseJson, applyReviver, formatPath, appendPath, setProperty, compileRegExp } from './parser'
+import { repair } from './repair'
+import { createTypeReviver } from './codecs'
+import { resolveReferences } from './references'
+import type { ParserOptions } from './parser'
 
-function validateInputSize(json: string, maxSize?: number): void {
-  if (maxSize !== undefined && json.length > maxSize) {
-    throw new Error(`Input size ${json.length} exceeds maximum ${maxSize} bytes`)
+function utf8Length(json: string): number {
+  let bytes = 0
+  for (let i = 0; i < json.length; i++) {
+    const code = json.charCodeAt(i)
+    if (code < 0x80) {
+      bytes += 1
+    } else if (code < 0x800) {
+      bytes += 2
+    } else if (code >= 0xd800 && code <= 0xdbff && i + 1 < json.length) {
+      // Surrogate pair: 4 bytes for both code units
+      bytes += 4
+      i++
+    } else {
+      bytes += 3
+    }
   }
+  return bytes
 }
 
-function checkDepth(obj: unknown, currentDepth: number, maxDepth: number): void {
-  if (currentDepth > maxDepth) {
-    throw new Error(`Maximum depth ${maxDepth} exceeded`)
-  }
+function validateInputSize(json: string, maxSize?: number, encoding: SizeEncoding = 'utf16'): void {
+  if (maxSize === undefined) return
   
-  if (typeof obj === 'object' && obj !== null) {
-    if (Array.isArray(obj)) {
-      for (const item of obj) {
-        checkDepth(item, currentDepth + 1, maxDepth)
-      }
-    } else {
-      for (const value of Object.values(obj)) {
-        checkDepth(value, currentDepth + 1, maxDepth)
-      }
-    }
+  // UTF-8 never uses fewer bytes than UTF-16 code units, so the cheap check can reject early
+  const size = encoding === 'utf8' && json.length <= maxSize ? utf8Length(json) : json.length
+  if (size > maxSize) {
+    throw new LimitExceededError(`Input size ${size} exceeds maximum ${maxSize} bytes`, 'maxSize', maxSize)
+  }
+}
+
+const DANGEROUS_KEYS = ['__proto__', 'constructor', 'prototype']
+
+// Takes the parent path, so the key's own path is only built for predicates that need it
+function isUnsafeKey(key: string, parentPath: string, options: SafeKeysOptions): boolean {
+  const deny = options.deny ?? DANGEROUS_KEYS
+  if (typeof deny !== 'function') {
+    if (deny.includes(key)) return true
+    if (options.allow === undefined) return false
   }
+
+  const path = appendPath(parentPath, key)
+  const denied = typeof deny === 'function' && deny(key, path)
+  return denied || (options.allow !== undefined && !options.allow(key, path))
 }
 
-function sanitizeKeys(obj: unknown, safeKeys: boolean): unknown {
-  if (!safeKeys || typeof obj !== 'object' || obj === null) {
+function isWalked(value: unknown): value is object {
+  return typeof value === 'object' && value !== null
+}
+
+function sanitizeKeys(
+  obj: unknown,
+  options: SafeKeysOptions,
+  // Formatted like `users[1]`, and only extended for values that are walked
+  path: string,
+  removed: string[]
+): unknown {
+  if (typeof obj !== 'object' || obj === null) {
     return obj
   }
   
   if (Array.isArray(obj)) {
-    const sanitized = obj.map(item => sanitizeKeys(item, safeKeys))
+    const sanitized = obj.map((item, i) => isWalked(item) ? sanitizeKeys(item, options, appendPath(path, i), removed) : item)
     return sanitized.some((item, i) => item !== obj[i]) ? sanitized : obj
   }
   
   const objRecord = obj as Record<string, unknown>
-  const sanitized: Record<string, unknown> = {}
-  let hasDangerousKeys = false
+  const sanitized: Record<string, unknown> = options.nullPrototype ? Object.create(null) : {}
+  let changed = options.nullPrototype === true
   
   for (const key in objRecord) {
-    if (key === '__proto__' || key === 'constructor' || key === 'prototype') {
-      hasDangerousKeys = true
-      continue
+    let targetKey = key
+    
+    if (isUnsafeKey(key, path, options)) {
+      const keyPath = appendPath(path, key)
+      if (options.action === 'error') {
+        throw new UnsafeKeyError(key, keyPath)
+      }
+      changed = true
+      removed.push(keyPath)
+      options.onUnsafeKey?.(keyPath, key)
+      if (options.action !== 'rename') continue
+      targetKey = options.rename ? options.rename(key) : `_${key}`
     }
-    const sanitizedValue = sanitizeKeys(objRecord[key], safeKeys)
-    if (sanitizedValue !== objRecord[key]) {
-      hasDangerousKeys = true
+    
+    const value = objRecord[key]
+    const sanitizedValue = isWalked(value) ? sanitizeKeys(value, options, appendPath(path, targetKey), removed) : value
+    if (sanitizedValue !== value) {
+      changed = true
     }
-    sanitized[key] = sanitizedValue
+    setProperty(sanitized, targetKey, sanitizedValue)
   }
   
-  return hasDangerousKeys ? sanitized : obj
+  return changed ? sanitized : obj
 }
 
-const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,3})?(Z|[+-]\d{2}:\d{2})?$/
+function applySafeKeys<T>(parsed: T, safeKeys: ParseOptions['safeKeys'], removed: string[] = []): T {
+  if (!safeKeys) return parsed
+  return sanitizeKeys(parsed, safeKeys === true ? {} : safeKeys, '', removed) as T
+}
+
+type Reviver = (key: string, value: unknown, context?: PathContext) => unknown
+
+const DATE_FORMATS: Record<DateFormat, RegExp> = {
+  iso: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/,
+  date: /^\d{4}-\d{2}-\d{2}$/
+}
+
+function toDateRules(dateMode: ParseOptions['dates']): DateRules | undefined {
+  if (dateMode === undefined || dateMode === false) return undefined
+  return typeof dateMode === 'object' ? dateMode : {}
+}
+
+// `*` matches one key or index: `orders[*].placedAt`, `*.createdAt`
+function compilePathPattern(pattern: string | RegExp): (path: string) => boolean {
+  if (pattern instanceof RegExp) return compileRegExp(pattern)
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^.[\\]]+')
+  return compileRegExp(new RegExp(`^${source}$`))
+}
 
 function createDateReviver(
-  customReviver?: (key: string, value: unknown) => unknown,
-  dateMode?: boolean | DateSerializationMode
-): (key: string, value: unknown) => unknown {
-  const datesEnabled = dateMode !== undefined && dateMode !== false
-  
-  return (key: string, value: unknown) => {
-    if (datesEnabled && typeof value === 'string') {
-      const len = value.length
-      if (len >= 19 && len <= 35 && ISO_DATE_REGEX.test(value)) {
-        const date = new Date(value)
-        if (!isNaN(date.getTime())) {
-          const result = customReviver ? customReviver(key, date) : date
-          return result
-        }
-      }
+  customReviver?: Reviver,
+  dateMode?: ParseOptions['dates']
+): Reviver {
+  const rules = toDateRules(dateMode)
+  const formats = (rules?.formats ?? ['iso']).map(format => compileRegExp(typeof format === 'string' ? DATE_FORMATS[format] : format))
+  const keys = rules?.keys?.map(pattern => typeof pattern === 'string' ? (key: string) => key === pattern : compileRegExp(pattern))
+  const paths = rules?.paths?.map(compilePathPattern)
+  const filtered = keys !== undefined || paths !== undefined
+  
+  function matches(key: string, context?: PathContext): boolean {
+    if (!filtered) return true
+    if (keys?.some(matchesKey => matchesKey(key))) return true
+    if (!paths || !context) return false
+    const path = formatPath(context.path)
+    return paths.some(matchesPath => matchesPath(path))
+  }
+  
+  function revive(key: string, value: unknown, context?: PathContext): unknown {
+    let input: string | number
+    if (typeof value === 'string') {
+      if (!formats.some(matchesFormat => matchesFormat(value)) || !matches(key, context)) return value
+      input = value
+    } else if (typeof value === 'number') {
+      // Any number could be a timestamp, so only revive the keys the rules name
+      if (!rules?.timestamps || !filtered || !matches(key, context)) return value
+      input = rules.timestamps === 's' ? value * 1000 : value
+    } else {
+      return value
     }
     
-    return customReviver ? customReviver(key, value) : value
+    if (rules?.factory) return rules.factory(input, key)
+    const date = new Date(input)
+    return isNaN(date.getTime()) ? value : date
+  }
+  
+  return (key: string, value: unknown, context?: PathContext) => {
+    const revived = rules ? revive(key, value, context) : value
+    return customReviver ? customReviver(key, revived, context) : revived
   }
 }
 
-/**
- * Safe JSON parse. Returns null on error instead of throwing.
- */
-export function parse<T = unknown>(value: string, options?: ParseOptions<T>): T | null {
+const NON_FINITE: Record<string, number> = { 'NaN': NaN, 'Infinity': Infinity, '-Infinity': -Infinity }
+
+// Read back what stringify writes with nonFinite: 'string'
+function createNonFiniteReviver(next?: Reviver): Reviver {
+  return (key: string, value: unknown, context?: PathContext) => {
+    const revived = typeof value === 'string' && Object.hasOwn(NON_FINITE, value) ? NON_FINITE[value] : value
+    return next ? next(key, revived, context) : revived
+  }
+}
+
+// Plain JSON stays on the native parser; anything JSON.parse cannot do needs the built-in scanner
+function decode(
+  value: string,
+  reviver?: Reviver,
+  options?: ParserOptions,
+  withPath = false
+): unknown {
+  const native = (options?.syntax ?? 'json') === 'json'
+    && (options?.numbers ?? 'number') === 'number'
+    && (options?.duplicateKeys ?? 'last') === 'last'
+    && options?.maxDepth === undefined
+    && options?.maxKeys === undefined
+    && options?.maxArrayLength === undefined
+    && options?.maxStringLength === undefined
+    && options?.maxTotalNodes === undefined
+  
+  // JSON.parse does not report paths, so path-aware revivers run as a separate pass
+  if (native && !withPath) {
+    return JSON.parse(value, reviver)
+  }
+  
+  const parsed = native ? JSON.parse(value) : parseJson(value, options)
+  return reviver ? applyReviver(parsed, reviver, { withPath }) : parsed
+}
+
+// Engine messages differ (and some only give a line), so rescan the input for an exact location
+export function locateSyntaxError(json: string, error: unknown): unknown {
+  if (!(error instanceof SyntaxError) || error instanceof JsonSyntaxError) {
+    return error
+  }
+  
   try {
-    if (options?.maxSize !== undefined) {
-      validateInputSize(value, options.maxSize)
+    parseJson(json)
+  } catch (scanError) {
+    if (scanError instanceof JsonSyntaxError) return scanError
+  }
+  return error
+}
+
+function runPipeline<T>(value: string, options?: ParseOptions<T>, removedPaths?: string[]): T {
+  if (options?.maxSize !== undefined) {
+    validateInputSize(value, options.maxSize, options.sizeEncoding)
+  }
+  
+  // A pathReviver always gets its context, since decode runs it with paths
+  const customReviver = (options?.pathReviver ?? options?.reviver) as Reviver | undefined
+  const dateReviver = options?.dates || customReviver
+    ? createDateReviver(customReviver, options?.dates)
+    : undefined
+  const numberReviver = options?.nonFinite === 'string' ? createNonFiniteReviver(dateReviver) : dateReviver
+  const reviver = options?.types ? createTypeReviver(options.types, numberReviver) : numberReviver
+  const withPath = options?.pathReviver !== undefined || toDateRules(options?.dates)?.paths !== undefined
+  // References are resolved in the data as written, so revivers run afterwards on the rebuilt graph
+  const pointers = options?.references === 'pointer'
+  // Keys are checked in the data as written too, before codecs hide objects inside Maps, Sets and Errors
+  const late = pointers || Boolean(options?.safeKeys)
+  const parsed = decode(value, late ? undefined : reviver, options, withPath) as T
+  
+  let sanitized = applySafeKeys(parsed, options?.safeKeys, removedPaths)
+  
+  if (pointers) resolveReferences(sanitized)
+  if (late && reviver) sanitized = applyReviver(sanitized, reviver, { withPath, graph: pointers }) as T
+  
+  if (options?.schema && options.abortEarly === false) {
+    const [valid, errors] = validateAll(sanitized, options.schema, options.maxErrors)
+    if (!valid) {
+      const [first] = errors
+      const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''
+      throw new HandleJsonError('SCHEMA', first.message + more, { path: first.path, cause: errors })
     }
-    
-    const reviver = options?.dates || options?.reviver
-      ? createDateReviver(options?.reviver, options?.dates)
-      : options?.reviver
-    const parsed = JSON.parse(value, reviver) as T
-    
-    if (options?.maxDepth !== undefined) {
-      checkDepth(parsed, 0, options.maxDepth)
+  } else if (options?.schema) {
+    const [valid, error] = validate(sanitized, options.schema)
+    if (!valid) {
+      throw new HandleJsonError('SCHEMA', error?.message ?? 'Validation failed', { path: error?.path, cause: error })
     }
+  }
+  
+  return sanitized
+}
+
+/**
+ * Run the full parse pipeline: size check, decode, safeKeys and schema. Throws on failure.
+ */
+export function parseOrThrow<T = unknown>(
+  value: string,
+  options?: ParseOptions<T>,
+  removedPaths?: string[]
+): T {
+  try {
+    return runPipeline(value, options, removedPaths)
+  } catch (error) {
+    if (!options?.repair || !(error instanceof SyntaxError)) throw error
     
-    const sanitized = options?.safeKeys
-      ? sanitizeKeys(parsed, true) as T
-      : parsed
-    
-    if (options?.schema) {
-      const [valid, error] = validate(sanitized, options.schema)
-      if (!valid) {
-        throw new Error(error?.message ?? 'Validation failed')
-      }
+    try {
+      return runPipeline(repair(value).text, options, removedPaths)
+    } catch (repairedError) {
+      // Positions in a repaired text are meaningless to the caller, so report the original
+      throw repairedError instanceof SyntaxError ? error : repairedError
     }
-    
-    return sanitized
+  }
+}
+
+/**
+ * Safe JSON parse. Returns null on error instead of throwing.
+ */
+export function parse<T = unknown>(value: string, options?: ParseOptions<T>): T | null {
+  try {
+    return parseOrThrow(value, options)
   } catch {
     return options?.default ?? null
   }
@@ -116,19 +295,29 @@ export function parse<T = unknown>(value: string, options?: ParseOptions<T>): T
 
 /**
  * Parse with error tuple. Returns [result, error] instead of null.
+ * Takes the same options as `parse`, or the older positional reviver, dates and syntax.
  */
+export function tryParse<T = unknown>(value: string, options?: ParseOptions<T>): ParseResult<T>
 export function tryParse<T = unknown>(
-  value: string, 
+  value: string,
   reviver?: (key: string, value: unknown) => unknown,
-  dates?: boolean | DateSerializationMode
+  dates?: ParseOptions['dates'],
+  syntax?: JsonSyntax
+): ParseResult<T>
+export function tryParse<T = unknown>(
+  value: string,
+  optionsOrReviver?: ParseOptions<T> | ((key: string, value: unknown) => unknown),
+  dates?: ParseOptions['dates'],
+  syntax?: JsonSyntax
 ): ParseResult<T> {
+  const options = typeof optionsOrReviver === 'object'
+    ? optionsOrReviver
+    : { reviver: optionsOrReviver, dates, syntax }
+  
   try {
-    const finalReviver = dates || reviver
-      ? createDateReviver(reviver, dates)
-      : reviver
-    return [JSON.parse(value, finalReviver) as T, null]
+    return [parseOrThrow(value, options), null]
   } catch (error) {
-    return [null, error instanceof Error ? error : new Error(String(error))]
+    return [null, toHandleJsonError(locateSyntaxError(value, error))]
   }
 }
 
@@ -140,48 +329,50 @@ export function parseWithDetails<T = unknown>(
   options?: ParseOptions<T>
 ): ParseResultWithDetails<T> {
   try {
-    if (options?.maxSize !== undefined) {
-      validateInputSize(value, options.maxSize)
-    }
+    const removedPaths: string[] = []
+    const data = parseOrThrow(value, options, removedPaths)
     
-    const reviver = options?.dates || options?.reviver
-      ? createDateReviver(options?.reviver, options?.dates)
-      : options?.reviver
-    const parsed = JSON.parse(value, reviver) as T
+    return options?.safeKeys
+      ? { success: true, data, removedPaths }
+      : { success: true, data }
+  } catch (error) {
+    const cause = toHandleJsonError(locateSyntaxError(value, error))
+    const { code, path, position } = cause
     
-    if (options?.maxDepth !== undefined) {
-      checkDepth(parsed, 0, options.maxDepth)
+    if (code === 'SCHEMA') {
+      const errors = Array.isArray(cause.cause) ? cause.cause as ValidationError[] : undefined
+      return { success: false, error: cause.message, code, path, cause, position: undefined, context: undefined, errors }
     }
     
-    const sanitized = options?.safeKeys
-      ? sanitizeKeys(parsed, true) as T
-      : parsed
+    const context = position !== undefined ? getContext(value, position) : undefined
+    const formattedError = formatError(cause, position, context)
+    const syntaxError = cause.cause
     
-    if (options?.schema) {
-      const [valid, error] = validate(sanitized, options.schema)
-      if (!valid) {
-        return {
-          success: false,
-          error: error?.message ?? 'Validation failed',
-          position: undefined,
-          context: undefined
-        }
+    if (syntaxError instanceof JsonSyntaxError) {
+      return {
+        success: false,
+        error: formattedError,
+        code,
+        path,
+        cause,
+        position,
+        context,
+        line: syntaxError.line,
+        column: syntaxError.column,
+        expected: syntaxError.expected,
+        found: syntaxError.found,
+        duplicateKey: syntaxError instanceof DuplicateKeyError
+          ? { key: syntaxError.key, path: syntaxError.path, position: syntaxError.position, firstPosition: syntaxError.firstPosition }
+          : undefined
       }
     }
     
-    return {
-      success: true,
-      data: sanitized
-    }
-  } catch (error) {
-    const err = error instanceof Error ? error : new Error(String(error))
-    const position = extractPosition(err)
-    const context = position !== undefined ? getContext(value, position) : undefined
-    const formattedError = formatError(err, position, context)
-    
     return {
       success: false,
       error: formattedError,
+      code,
+      path,
+      cause,
       position,
       context
     }
@@ -189,11 +380,11 @@ export function parseWithDetails<T = unknown>(
 }
 
 /**
- * Check if string is valid JSON without parsing.
+ * Check if string is valid JSON. With options, it must also pass limits, safeKeys and schema.
  */
-export function isValid(value: string): boolean {
+export function isValid(value: string, options?: ParseOptions): boolean {
   try {
-    JSON.parse(value)
+    parseOrThrow(value, options)
     return true
   } catch {
     return false
@@ -0,0 +1,357 @@
+import type { JsonSyntax, NumberMode, DuplicateKeyMode, PathContext } from './types'
+import { JsonSyntaxError, DuplicateKeyError, LimitExceededError } from './errors'
+import type { ParseLimit } from './errors'
+import { createScanner, describeAt } from './scanner'
+import type { Token } from './scanner'
+
+export type ParserOptions = {
+  syntax?: JsonSyntax
+  numbers?: NumberMode
+  duplicateKeys?: DuplicateKeyMode
+  maxDepth?: number
+  maxKeys?: number
+  maxArrayLength?: number
+  maxStringLength?: number
+  maxTotalNodes?: number
+}
+
+type ObjectFrame = {
+  kind: 'object'
+  value: Record<string, unknown>
+  key: string
+  size: number
+  // Key positions, only tracked when duplicates are not simply overwritten
+  seen?: Map<string, number>
+  skip?: boolean
+}
+
+type Frame = ObjectFrame | { kind: 'array', value: unknown[] }
+
+/**
+ * Format path segments the way validation errors do: `users[1].name`.
+ */
+export function formatPath(segments: Array<string | number>): string {
+  return segments.reduce<string>(appendPath, '')
+}
+
+/**
+ * Extend a path made by `formatPath` by one segment.
+ */
+export function appendPath(path: string, segment: string | number): string {
+  if (typeof segment === 'number') return `${path}[${segment}]`
+  return path ? `${path}.${segment}` : segment
+}
+
+/**
+ * Format path segments as a JSON Pointer: `/users/1/name`.
+ */
+export function formatPointer(segments: Array<string | number>): string {
+  return segments.map(segment => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1')).join('')
+}
+
+/**
+ * Build the context passed to path-aware revivers and replacers.
+ */
+export function createPathContext(path: Array<string | number>, parent: unknown): PathContext {
+  return { pointer: formatPointer(path), path, parent, depth: path.length }
+}
+
+/**
+ * Test text against a caller's RegExp from the start every time, even with the g or y flag.
+ */
+export function compileRegExp(pattern: RegExp): (text: string) => boolean {
+  // A copy, so the caller's lastIndex is never touched
+  const copy = new RegExp(pattern)
+  return text => {
+    copy.lastIndex = 0
+    return copy.test(text)
+  }
+}
+
+/**
+ * Define an own property, including `__proto__`, without touching the prototype.
+ */
+export function setProperty(target: Record<string, unknown>, key: string, value: unknown): void {
+  if (key === '__proto__') {
+    Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true })
+  } else {
+    target[key] = value
+  }
+}
+
+function toNumber(raw: string): number {
+  // Number() understands hex, but not with a sign in front
+  const hex = /^([+-]?)0[xX]/.exec(raw)
+  if (hex) {
+    const magnitude = parseInt(raw.slice(hex[0].length), 16)
+    return hex[1] === '-' ? -magnitude : magnitude
+  }
+  return Number(raw)
+}
+
+// Reduce a decimal literal to `digits e exponent` so equal values compare equal
+function normalizeDecimal(text: string): string | undefined {
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(text)
+  if (!match) return undefined
+
+  const fraction = match[3] ?? ''
+  let digits = (match[2] + fraction).replace(/^0+/, '')
+  let exponent = parseInt(match[4] ?? '0', 10) - fraction.length
+  if (digits === '') return '0'
+
+  const trimmed = digits.replace(/0+$/, '')
+  exponent += digits.length - trimmed.length
+  digits = trimmed
+  return `${match[1] === '-' ? '-' : ''}${digits}e${exponent}`
+}
+
+function isLossless(raw: string, value: number): boolean {
+  if (!Number.isFinite(value)) return false
+  return normalizeDecimal(raw) === normalizeDecimal(String(value))
+}
+
+function toBigInt(raw: string): bigint {
+  const hex = /^([+-]?)0[xX]/.exec(raw)
+  if (hex) {
+    const magnitude = BigInt('0x' + raw.slice(hex[0].length))
+    return hex[1] === '-' ? -magnitude : magnitude
+  }
+  return BigInt(raw)
+}
+
+/**
+ * Convert a number literal according to the `numbers` mode.
+ */
+export function convertNumber(raw: string, mode: NumberMode = 'number'): number | bigint | string {
+  const value = toNumber(raw)
+  if (mode === 'number' || /(Infinity|NaN)$/.test(raw)) return value
+
+  const integer = /^[+-]?(\d+|0[xX][0-9a-fA-F]+)$/.test(raw)
+
+  if (integer) {
+    if (mode === 'bigint') return toBigInt(raw)
+    if (Number.isSafeInteger(value)) return value
+    return mode === 'auto' ? toBigInt(raw) : raw
+  }
+
+  if (mode === 'bigint' || isLossless(raw, value)) return value
+  return raw
+}
+
+const LIMIT_MESSAGES: Record<Exclude<ParseLimit, 'maxSize'>, (max: number) => string> = {
+  maxDepth: max => `Maximum depth ${max} exceeded`,
+  maxKeys: max => `Maximum of ${max} keys per object exceeded`,
+  maxArrayLength: max => `Maximum array length ${max} exceeded`,
+  maxStringLength: max => `Maximum string length ${max} exceeded`,
+  maxTotalNodes: max => `Maximum of ${max} total nodes exceeded`
+}
+
+/**
+ * Parse JSON with the built-in scanner. Iterative, so deep input cannot overflow the stack.
+ * Limits are checked as tokens are read, before anything oversized is built.
+ */
+export function parseJson(text: string, options?: ParserOptions): unknown {
+  const syntax = options?.syntax ?? 'json'
+  const numbers = options?.numbers ?? 'number'
+  const duplicateKeys = options?.duplicateKeys ?? 'last'
+  const scanner = createScanner(text, { syntax })
+  const trailingCommas = syntax !== 'json'
+  const json5 = syntax === 'json5'
+  const stack: Frame[] = []
+  let nodes = 0
+  let token = scanner.next()
+
+  function fail(at: Token, expected: string): never {
+    throw new JsonSyntaxError(text, at.start, expected, describeAt(text, at.start))
+  }
+
+  function checkLimit(limit: Exclude<ParseLimit, 'maxSize'>, count: number, at: Token): void {
+    const max = options?.[limit]
+    if (max !== undefined && count > max) {
+      throw new LimitExceededError(LIMIT_MESSAGES[limit](max), limit, max, at.start, formatPath(currentPath()))
+    }
+  }
+
+  // Path of the value currently being read, for error reporting
+  function currentPath(): Array<string | number> {
+    return stack.map(frame => frame.kind === 'object' ? frame.key : frame.value.length)
+  }
+
+  // Reads `"key" :` and leaves `token` at the start of the property value
+  function readKey(frame: ObjectFrame): void {
+    if (token.kind === 'string' || (json5 && token.kind === 'identifier')) {
+      frame.key = token.value ?? ''
+    } else if (json5 && (token.kind === 'true' || token.kind === 'false' || token.kind === 'null')) {
+      frame.key = token.kind
+    } else {
+      fail(token, json5 ? 'property name' : 'string')
+    }
+    checkLimit('maxKeys', ++frame.size, token)
+    checkLimit('maxStringLength', frame.key.length, token)
+
+    if (frame.seen) {
+      const firstPosition = frame.seen.get(frame.key)
+      if (firstPosition === undefined) {
+        frame.seen.set(frame.key, token.start)
+      } else if (duplicateKeys === 'error') {
+        throw new DuplicateKeyError(text, token.start, frame.key, formatPath(currentPath()), firstPosition)
+      }
+      frame.skip = firstPosition !== undefined
+    }
+
+    token = scanner.next()
+    if (token.kind !== ':') fail(token, `':'`)
+    token = scanner.next()
+  }
+
+  while (true) {
+    let value: unknown
+    const parent = stack[stack.length - 1]
+
+    checkLimit('maxTotalNodes', ++nodes, token)
+    checkLimit('maxDepth', stack.length, token)
+    if (parent?.kind === 'array') {
+      checkLimit('maxArrayLength', parent.value.length + 1, token)
+    }
+
+    switch (token.kind) {
+      case '{': {
+        token = scanner.next()
+        if (token.kind === '}') {
+          value = {}
+          break
+        }
+        const frame: ObjectFrame = { kind: 'object', value: {}, key: '', size: 0 }
+        if (duplicateKeys !== 'last') frame.seen = new Map()
+        stack.push(frame)
+        readKey(frame)
+        continue
+      }
+      case '[': {
+        token = scanner.next()
+        if (token.kind === ']') {
+          value = []
+          break
+        }
+        stack.push({ kind: 'array', value: [] })
+        continue
+      }
+      case 'string':
+        checkLimit('maxStringLength', token.value?.length ?? 0, token)
+        value = token.value
+        break
+      case 'number':
+        value = convertNumber(token.value ?? '', numbers)
+        break
+      case 'identifier':
+        if (token.value !== 'Infinity' && token.value !== 'NaN') fail(token, 'value')
+        value = token.value === 'Infinity' ? Infinity : NaN
+        break
+      case 'true':
+        value = true
+        break
+      case 'false':
+        value = false
+        break
+      case 'null':
+        value = null
+        break
+      default:
+        fail(token, 'value')
+    }
+
+    // Attach the completed value and close any containers that end here
+    while (true) {
+      const frame = stack[stack.length - 1]
+      token = scanner.next()
+
+      if (!frame) {
+        if (token.kind !== 'eof') fail(token, 'end of input')
+        return value
+      }
+
+      if (frame.kind === 'object') {
+        if (!frame.skip) setProperty(frame.value, frame.key, value)
+      } else {
+        frame.value.push(value)
+      }
+
+      const closer = frame.kind === 'object' ? '}' : ']'
+      if (token.kind === closer) {
+        stack.pop()
+        value = frame.value
+        continue
+      }
+      if (token.kind !== ',') fail(token, `',' or '${closer}'`)
+
+      token = scanner.next()
+      if (trailingCommas && token.kind === closer) {
+        stack.pop()
+        value = frame.value
+        continue
+      }
+      if (frame.kind === 'object') readKey(frame)
+      break
+    }
+  }
+}
+
+export type ReviverWalkOptions = {
+  // Pass each value's location to the reviver
+  withPath?: boolean
+  // The value may contain shared or circular references: revive each object once
+  graph?: boolean
+}
+
+/**
+ * Apply a reviver the way JSON.parse does: bottom-up, deleting keys that revive to undefined.
+ */
+export function applyReviver(
+  value: unknown,
+  reviver: (key: string, value: unknown, context?: PathContext) => unknown,
+  options?: ReviverWalkOptions
+): unknown {
+  const withPath = options?.withPath ?? false
+  const revived = options?.graph ? new Map<object, unknown>() : undefined
+  const active = new Set<object>()
+
+  function walk(holder: Record<string, unknown>, key: string, path: Array<string | number>): unknown {
+    const current = holder[key]
+    const isObject = typeof current === 'object' && current !== null
+
+    if (isObject && revived) {
+      if (revived.has(current)) return revived.get(current)
+      // A cycle back to an object still being revived keeps the original
+      if (active.has(current)) return current
+      active.add(current)
+    }
+
+    if (isObject) {
+      const record = current as Record<string, unknown>
+      const isArray = Array.isArray(current)
+      const keys = isArray ? current.map((_, i) => String(i)) : Object.keys(current)
+      for (const childKey of keys) {
+        const childPath = withPath ? [...path, isArray ? Number(childKey) : childKey] : path
+        const revivedChild = walk(record, childKey, childPath)
+        if (revivedChild === undefined) {
+          delete record[childKey]
+        } else {
+          setProperty(record, childKey, revivedChild)
+        }
+      }
+    }
+
+    const parent = path.length === 0 ? undefined : holder
+    const result = withPath
+      ? reviver.call(holder, key, current, createPathContext(path, parent))
+      : reviver.call(holder, key, current)
+
+    if (isObject && revived) {
+      active.delete(current)
+      revived.set(current, result)
+    }
+    return result
+  }
+
+  return walk({ '': value }, '', [])
+}
@@ -0,0 +1,77 @@
+import type { PathContext, RedactMatcher, RedactOptions, RedactReplacement } from './types'
+import { createPathContext, compileRegExp } from './parser'
+import { sha256 } from './hash'
+
+type Redactor = (holder: object, key: string, value: unknown, path: Array<string | number>) => unknown
+
+const DEFAULT_REPLACEMENT = '[REDACTED]'
+
+// Pointer segments, with '*' matching any single key or index
+function compilePointer(pointer: string): (path: Array<string | number>) => boolean {
+  const segments = pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+  return path => path.length === segments.length &&
+    segments.every((segment, i) => segment === '*' || segment === String(path[i]))
+}
+
+function compileMatcher(
+  matcher: RedactMatcher
+): (key: string, value: unknown, path: Array<string | number>, context: () => PathContext) => boolean {
+  if (typeof matcher === 'function') {
+    return (key, value, _path, context) => matcher(key, value, context())
+  }
+  if (matcher instanceof RegExp) {
+    const test = compileRegExp(matcher)
+    return (key, _value, path) => path.length > 0 && typeof path[path.length - 1] === 'string' && test(key)
+  }
+  if (matcher.startsWith('/')) {
+    const matches = compilePointer(matcher)
+    return (_key, _value, path) => matches(path)
+  }
+  const name = matcher.toLowerCase()
+  return (key, _value, path) => path.length > 0 && typeof path[path.length - 1] === 'string' && key.toLowerCase() === name
+}
+
+function toText(value: unknown): string | undefined {
+  const type = typeof value
+  return type === 'string' || type === 'number' || type === 'boolean' || type === 'bigint' ? String(value) : undefined
+}
+
+function replace(value: unknown, replacement: RedactReplacement, context: () => PathContext): unknown {
+  if (typeof replacement === 'string') return replacement
+  if (typeof replacement === 'function') return replacement(value, context())
+
+  // Objects and arrays have no text to mask or hash
+  const text = toText(value)
+  if (text === undefined) return DEFAULT_REPLACEMENT
+
+  if (replacement.type === 'hash') {
+    return 'sha256:' + sha256((replacement.salt ?? '') + text).slice(0, 16)
+  }
+
+  const visible = replacement.visible ?? 4
+  const char = replacement.char ?? '*'
+  // Short values would give away too much, so they are masked entirely
+  const shown = text.length >= visible * 2 ? visible : 0
+  return char.repeat(text.length - shown) + text.slice(text.length - shown)
+}
+
+/**
+ * Build the check stringify runs on every value. Returns the value unchanged unless a matcher claims it.
+ */
+export function createRedactor(redact: RedactMatcher[] | RedactOptions): Redactor {
+  const options = Array.isArray(redact) ? { match: redact } : redact
+  const matchers = options.match.map(compileMatcher)
+  const replacement = options.replacement ?? DEFAULT_REPLACEMENT
+
+  return (holder, key, value, path) => {
+    // Nothing is written for undefined, so there is nothing to hide
+    if (value === undefined) return value
+
+    let context: PathContext | undefined
+    const getContext = () => context ??= createPathContext(path, path.length === 0 ? undefined : holder)
+
+    return matchers.some(matches => matches(key, value, path, getContext))
+      ? replace(value, replacement, getContext)
+      : value
+  }
+}
@@ -0,0 +1,52 @@
+import { setProperty } from './parser'
+
+type Container = Record<string, unknown>
+
+function isReference(value: unknown): value is { $ref: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  const ref = (value as { $ref?: unknown }).$ref
+  return typeof ref === 'string' && ref.startsWith('#') && Object.keys(value).length === 1
+}
+
+function lookup(root: unknown, pointer: string): { value: unknown } | undefined {
+  if (pointer === '') return { value: root }
+  if (!pointer.startsWith('/')) return undefined
+
+  let current = root
+  for (const segment of pointer.slice(1).split('/')) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~')
+    if (typeof current !== 'object' || current === null || !Object.hasOwn(current, key)) return undefined
+    current = (current as Container)[key]
+  }
+  return { value: current }
+}
+
+/**
+ * Replace `{ $ref: '#/a/b' }` objects with the value they point to, rebuilding shared and circular references.
+ * Pointers that do not resolve are left as they are.
+ */
+export function resolveReferences<T>(root: T): T {
+  if (isReference(root)) return root
+
+  const visited = new WeakSet<object>()
+  const stack: unknown[] = [root]
+
+  while (stack.length > 0) {
+    const current = stack.pop()
+    if (typeof current !== 'object' || current === null || visited.has(current)) continue
+    visited.add(current)
+
+    const container = current as Container
+    for (const key of Object.keys(container)) {
+      const child = container[key]
+      if (isReference(child)) {
+        const target = lookup(root, child.$ref.slice(1))
+        if (target) setProperty(container, key, target.value)
+      } else {
+        stack.push(child)
+      }
+    }
+  }
+
+  return root
+}
@@ -0,0 +1,354 @@
+import type { RepairEdit, RepairResult } from './types'
+
+type Container = {
+  type: '{' | '['
+  state: 'key' | 'colon' | 'value' | 'comma'
+  // Output index and source position of the last comma, so a trailing one can be dropped
+  comma?: Mark
+  // End of the last key or value, where missing punctuation belongs
+  end?: Mark
+}
+
+type Mark = { index: number, position: number }
+
+const CLOSERS = { '{': '}', '[': ']' } as const
+const WORD_LITERALS: Record<string, string> = {
+  true: 'true', false: 'false', null: 'null',
+  True: 'true', False: 'false', None: 'null',
+  undefined: 'null', NaN: 'null', Infinity: 'null'
+}
+const CONTROL_ESCAPES: Record<string, string> = { '\n': '\\n', '\r': '\\r', '\t': '\\t', '\b': '\\b', '\f': '\\f' }
+const JSON_NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/
+// What may follow a backslash in JSON, checked at the character after it
+const JSON_ESCAPE = /["\\/bfnrt]|u[0-9a-fA-F]{4}/y
+
+function isWordStart(char: string): boolean {
+  return /[A-Za-z_$]/.test(char)
+}
+
+function isNumberStart(char: string, next: string | undefined): boolean {
+  return /[0-9]/.test(char) || ((char === '-' || char === '+' || char === '.') && /[0-9.]/.test(next ?? ''))
+}
+
+// `+1`, `.5`, `1.` and leading zeros are common near-misses
+function fixNumber(raw: string): string {
+  if (JSON_NUMBER.test(raw)) return raw
+  let fixed = raw.replace(/^\+/, '')
+  fixed = fixed.replace(/^(-?)\./, '$10.').replace(/\.(?=[eE]|$)/, '')
+  fixed = fixed.replace(/^(-?)0+(?=\d)/, '$1')
+  return JSON_NUMBER.test(fixed) ? fixed : raw
+}
+
+/**
+ * Fix almost-valid JSON. Returns the repaired text and every edit made, with source positions.
+ */
+export function repair(text: string): RepairResult {
+  const out: string[] = []
+  const edits: RepairEdit[] = []
+  const stack: Container[] = []
+  // Open containers of each type, so a closer with no match is known without searching the stack
+  const open = { '{': 0, '[': 0 }
+  let rootDone = false
+  let pos = 0
+
+  function edit(position: number, removed: string, inserted: string, description: string): void {
+    edits.push({ position, removed, inserted, description })
+    if (inserted) out.push(inserted)
+  }
+
+  function top(): Container | undefined {
+    return stack[stack.length - 1]
+  }
+
+  function expectsKey(): boolean {
+    const container = top()
+    return container?.type === '{' && (container.state === 'key' || container.state === 'comma')
+  }
+
+  // Insert missing punctuation right after the previous key or value
+  function insertAtEnd(container: Container, inserted: string, description: string): Mark {
+    const mark = container.end ?? { index: out.length, position: pos }
+    out.splice(mark.index, 0, inserted)
+    edits.push({ position: mark.position, removed: '', inserted, description })
+    return mark
+  }
+
+  function beforeToken(): void {
+    const container = top()
+    if (!container) return
+
+    if (container.state === 'comma') {
+      container.comma = insertAtEnd(container, ',', 'Inserted missing comma')
+      container.state = container.type === '{' ? 'key' : 'value'
+    } else if (container.state === 'colon') {
+      insertAtEnd(container, ':', 'Inserted missing colon')
+      container.state = 'value'
+    }
+  }
+
+  function afterValue(): void {
+    const container = top()
+    if (container) {
+      container.state = 'comma'
+      container.end = { index: out.length, position: pos }
+    } else {
+      rootDone = true
+    }
+  }
+
+  function afterKey(): void {
+    const container = top()
+    if (container) {
+      container.state = 'colon'
+      container.end = { index: out.length, position: pos }
+    }
+  }
+
+  // Complete a dangling property or drop a trailing comma, then write the closer
+  function close(position: number, closer?: string): void {
+    const container = stack.pop()
+    if (!container) return
+    open[container.type]--
+
+    if (container.state === 'colon') {
+      edit(position, '', ':null', 'Completed property with null')
+    } else if (container.state === 'value' && container.type === '{') {
+      edit(position, '', 'null', 'Completed property with null')
+    } else if ((container.state === 'key' || container.state === 'value') && container.comma) {
+      out[container.comma.index] = ''
+      edits.push({ position: container.comma.position, removed: ',', inserted: '', description: 'Removed trailing comma' })
+    }
+
+    const expected = CLOSERS[container.type]
+    if (closer === expected) {
+      out.push(closer)
+    } else if (closer !== undefined) {
+      edit(position, closer, expected, `Replaced mismatched '${closer}'`)
+    } else {
+      edit(position, '', expected, `Closed unclosed '${container.type}'`)
+    }
+    afterValue()
+  }
+
+  function readString(): void {
+    const start = pos
+    const quote = text[pos++]
+    let result = '"'
+    let closed = false
+    let stray = false
+
+    while (pos < text.length) {
+      const char = text[pos]
+      if (char === quote) {
+        closed = true
+        pos++
+        break
+      }
+      if (char === '\\') {
+        const next = text[pos + 1]
+        if (next === undefined) {
+          pos++
+          break
+        }
+        JSON_ESCAPE.lastIndex = pos + 1
+        if (next === "'") {
+          // \' is not a JSON escape
+          result += "'"
+          pos += 2
+        } else if (JSON_ESCAPE.test(text)) {
+          result += char + next
+          pos += 2
+        } else {
+          // A backslash starting no escape, like in a Windows path, stands for itself
+          result += '\\\\'
+          stray = true
+          pos++
+        }
+        continue
+      }
+      if (char === '"') {
+        result += '\\"'
+      } else if (CONTROL_ESCAPES[char]) {
+        result += CONTROL_ESCAPES[char]
+      } else if (char.charCodeAt(0) < 0x20) {
+        result += `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+      } else {
+        result += char
+      }
+      pos++
+    }
+
+    const original = text.slice(start, pos)
+    if (closed) result += '"'
+    if (result !== original) {
+      const description = quote === "'"
+        ? 'Replaced single quotes'
+        : stray ? 'Escaped stray backslashes' : 'Escaped control characters'
+      edits.push({ position: start, removed: original, inserted: result, description })
+    }
+    out.push(result)
+    if (!closed) edit(pos, '', '"', 'Closed unterminated string')
+  }
+
+  function readWord(): string {
+    const start = pos
+    while (pos < text.length && /[\w$]/.test(text[pos])) pos++
+    return text.slice(start, pos)
+  }
+
+  function readNumber(): string {
+    const start = pos
+    pos++
+    while (pos < text.length && /[0-9.eE+-]/.test(text[pos])) pos++
+    return text.slice(start, pos)
+  }
+
+  function skipComment(): boolean {
+    if (text[pos] !== '/' || (text[pos + 1] !== '/' && text[pos + 1] !== '*')) return false
+    const start = pos
+    if (text[pos + 1] === '/') {
+      while (pos < text.length && text[pos] !== '\n') pos++
+    } else {
+      const end = text.indexOf('*/', pos + 2)
+      pos = end === -1 ? text.length : end + 2
+    }
+    edits.push({ position: start, removed: text.slice(start, pos), inserted: '', description: 'Removed comment' })
+    return true
+  }
+
+  // Drop prose or code fences around the root value
+  function skipOutside(untilValue: boolean): void {
+    const start = pos
+    if (untilValue) {
+      const next = text.slice(pos).search(/[{[]/)
+      pos = next === -1 ? text.length : pos + next
+    } else {
+      pos = text.length
+    }
+    const removed = text.slice(start, pos)
+    const description = removed.trimStart().startsWith('```') ? 'Removed markdown code fence' : 'Removed text outside JSON'
+    edits.push({ position: start, removed, inserted: '', description })
+  }
+
+  while (pos < text.length) {
+    const char = text[pos]
+    const container = top()
+
+    if (/\s/.test(char)) {
+      out.push(char)
+      pos++
+      continue
+    }
+    if (skipComment()) continue
+
+    // A closing fence ends the value, even one cut short inside it
+    if (rootDone || (container && text.startsWith('```', pos))) {
+      skipOutside(false)
+      break
+    }
+
+    if (char === '"' || char === "'") {
+      const key = expectsKey()
+      beforeToken()
+      readString()
+      if (key) afterKey()
+      else afterValue()
+      continue
+    }
+
+    if (isNumberStart(char, text[pos + 1])) {
+      const start = pos
+      const key = expectsKey()
+      beforeToken()
+      const raw = readNumber()
+      if (key) {
+        edit(start, raw, `"${raw}"`, 'Quoted key')
+        afterKey()
+      } else {
+        const fixed = fixNumber(raw)
+        if (fixed !== raw) edit(start, raw, fixed, 'Fixed number')
+        else out.push(raw)
+        afterValue()
+      }
+      continue
+    }
+
+    if (isWordStart(char)) {
+      const start = pos
+      const key = expectsKey()
+      if (!container && WORD_LITERALS[text.slice(pos).match(/^[\w$]+/)?.[0] ?? ''] === undefined) {
+        skipOutside(true)
+        continue
+      }
+      beforeToken()
+      const word = readWord()
+      if (key) {
+        edit(start, word, `"${word}"`, 'Quoted key')
+        afterKey()
+      } else {
+        const literal = WORD_LITERALS[word]
+        if (literal === word) out.push(word)
+        else if (literal) edit(start, word, literal, `Replaced '${word}'`)
+        else edit(start, word, `"${word}"`, 'Quoted string')
+        afterValue()
+      }
+      continue
+    }
+
+    if (char === '{' || char === '[') {
+      beforeToken()
+      out.push(char)
+      stack.push({ type: char, state: char === '{' ? 'key' : 'value' })
+      open[char]++
+      pos++
+      continue
+    }
+
+    if (char === '}' || char === ']') {
+      const opener = char === '}' ? '{' : '['
+      // Searched from the top, where it usually is. Containers passed on the way are closed, so this adds up to one pass
+      let match = open[opener] > 0 ? stack.length - 1 : -1
+      while (match >= 0 && stack[match].type !== opener) match--
+      if (match === -1) {
+        if (container) {
+          close(pos, char)
+        } else {
+          edits.push({ position: pos, removed: char, inserted: '', description: `Removed unmatched '${char}'` })
+        }
+      } else {
+        while (stack.length > match + 1) close(pos)
+        close(pos, char)
+      }
+      pos++
+      continue
+    }
+
+    if (char === ':' && container?.state === 'colon') {
+      out.push(char)
+      container.state = 'value'
+      pos++
+      continue
+    }
+
+    if (char === ',' && container?.state === 'comma') {
+      container.comma = { index: out.length, position: pos }
+      out.push(char)
+      container.state = container.type === '{' ? 'key' : 'value'
+      pos++
+      continue
+    }
+
+    if (!container) {
+      skipOutside(true)
+      continue
+    }
+
+    edits.push({ position: pos, removed: char, inserted: '', description: `Removed unexpected '${char}'` })
+    pos++
+  }
+
+  while (stack.length > 0) close(text.length)
+
+  edits.sort((a, b) => a.position - b.position)
+  return { text: out.join(''), edits }
+}
@@ -0,0 +1,271 @@
+import type { JsonSyntax } from './types'
+import { JsonSyntaxError } from './errors'
+
+export type TokenKind =
+  | '{' | '}' | '[' | ']' | ':' | ','
+  | 'string' | 'number' | 'true' | 'false' | 'null'
+  | 'identifier' | 'eof' | 'invalid'
+
+export type Token = {
+  kind: TokenKind
+  start: number
+  end: number
+  // Decoded contents for strings and identifiers, raw source text for numbers
+  value?: string
+}
+
+export type Scanner = {
+  next(): Token
+}
+
+export type ScannerOptions = {
+  syntax?: JsonSyntax
+}
+
+const PUNCTUATORS = '{}[]:,'
+const ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t'
+}
+const JSON5_ESCAPES: Record<string, string> = {
+  ...ESCAPES, "'": "'", v: '\v', '0': '\0'
+}
+const JSON5_WHITESPACE = /[\t\n\v\f\r \u00A0\u2028\u2029\uFEFF\p{Zs}]/u
+const LINE_TERMINATORS = '\n\r\u2028\u2029'
+const IDENTIFIER_START = /[\p{ID_Start}$_]/u
+const IDENTIFIER_PART = /[\p{ID_Continue}$_\u200C\u200D]/u
+
+function isDigit(code: number): boolean {
+  return code >= 48 && code <= 57
+}
+
+function isWordChar(char: string): boolean {
+  return /[\w$+\-.]/.test(char)
+}
+
+function isHex(char: string): boolean {
+  return /^[0-9a-fA-F]$/.test(char)
+}
+
+/**
+ * Describe the source text at a position for error messages.
+ */
+export function describeAt(text: string, position: number): string {
+  if (position >= text.length) return 'end of input'
+  if (!isWordChar(text[position])) return `'${text[position]}'`
+
+  let end = position
+  while (end < text.length && end - position < 20 && isWordChar(text[end])) end++
+  return `'${text.slice(position, end)}'`
+}
+
+/**
+ * Tokenize JSON text. Throws JsonSyntaxError with exact location on invalid input.
+ * JSONC adds comments; JSON5 adds comments, single quotes, identifiers and extended numbers.
+ */
+export function createScanner(text: string, options?: ScannerOptions): Scanner {
+  const syntax = options?.syntax ?? 'json'
+  const json5 = syntax === 'json5'
+  const comments = syntax !== 'json'
+  let pos = 0
+
+  function fail(position: number, expected: string, found = describeAt(text, position)): never {
+    throw new JsonSyntaxError(text, position, expected, found)
+  }
+
+  function isWhitespace(char: string): boolean {
+    if (char === ' ' || char === '\t' || char === '\n' || char === '\r') return true
+    return json5 && JSON5_WHITESPACE.test(char)
+  }
+
+  function skipTrivia(): void {
+    while (pos < text.length) {
+      const char = text[pos]
+      if (isWhitespace(char)) {
+        pos++
+      } else if (comments && char === '/' && text[pos + 1] === '/') {
+        pos += 2
+        while (pos < text.length && !LINE_TERMINATORS.includes(text[pos])) pos++
+      } else if (comments && char === '/' && text[pos + 1] === '*') {
+        const end = text.indexOf('*/', pos + 2)
+        if (end === -1) fail(text.length, `'*/'`)
+        pos = end + 2
+      } else {
+        break
+      }
+    }
+  }
+
+  function scanHex(length: number): number {
+    const hex = text.slice(pos, pos + length)
+    for (let i = 0; i < length; i++) {
+      if (!isHex(hex[i] ?? '')) fail(pos + i, 'hex digit')
+    }
+    pos += length
+    return parseInt(hex, 16)
+  }
+
+  // Reads the escape at `pos` (just past the backslash) and returns its decoded text
+  function scanEscape(): string {
+    const escape = text[pos]
+
+    if (escape === 'u') {
+      pos++
+      return String.fromCharCode(scanHex(4))
+    }
+
+    if (!json5) {
+      if (escape === undefined || ESCAPES[escape] === undefined) fail(pos, 'escape sequence')
+      pos++
+      return ESCAPES[escape]
+    }
+
+    if (escape === undefined || (escape === '0' && isDigit(text.charCodeAt(pos + 1))) || /[1-9]/.test(escape)) {
+      fail(pos, 'escape sequence')
+    }
+    if (escape === 'x') {
+      pos++
+      return String.fromCharCode(scanHex(2))
+    }
+    if (LINE_TERMINATORS.includes(escape)) {
+      // Line continuation
+      pos += escape === '\r' && text[pos + 1] === '\n' ? 2 : 1
+      return ''
+    }
+    pos++
+    return JSON5_ESCAPES[escape] ?? escape
+  }
+
+  function scanString(start: number): Token {
+    const quote = text[pos]
+    let result = ''
+    let chunkStart = ++pos
+
+    while (true) {
+      if (pos >= text.length) fail(pos, `'${quote}'`)
+      const char = text[pos]
+
+      if (char === quote) {
+        result += text.slice(chunkStart, pos)
+        pos++
+        return { kind: 'string', start, end: pos, value: result }
+      }
+
+      if (char === '\\') {
+        result += text.slice(chunkStart, pos)
+        pos++
+        result += scanEscape()
+        chunkStart = pos
+        continue
+      }
+
+      const code = char.charCodeAt(0)
+      const invalid = json5 ? char === '\n' || char === '\r' : code < 0x20
+      if (invalid) {
+        fail(pos, `'${quote}'`, `control character U+${code.toString(16).padStart(4, '0').toUpperCase()}`)
+      }
+      pos++
+    }
+  }
+
+  function scanDigits(): void {
+    if (!isDigit(text.charCodeAt(pos))) fail(pos, 'digit')
+    while (isDigit(text.charCodeAt(pos))) pos++
+  }
+
+  function scanNumber(start: number): Token {
+    if (text[pos] === '-' || (json5 && text[pos] === '+')) pos++
+
+    if (json5) {
+      for (const word of ['Infinity', 'NaN']) {
+        if (text.startsWith(word, pos)) {
+          pos += word.length
+          return { kind: 'number', start, end: pos, value: text.slice(start, pos) }
+        }
+      }
+      if (text[pos] === '0' && (text[pos + 1] === 'x' || text[pos + 1] === 'X')) {
+        pos += 2
+        if (!isHex(text[pos] ?? '')) fail(pos, 'hex digit')
+        while (isHex(text[pos] ?? '')) pos++
+        return { kind: 'number', start, end: pos, value: text.slice(start, pos) }
+      }
+    }
+
+    const leadingPoint = json5 && text[pos] === '.'
+    if (leadingPoint) {
+      // `.5` is fine in JSON5, the fraction digits are checked below
+    } else if (text[pos] === '0') {
+      pos++
+    } else {
+      scanDigits()
+    }
+
+    if (text[pos] === '.') {
+      pos++
+      // JSON5 allows `5.`, but `.` alone is not a number
+      if (!json5 || leadingPoint || isDigit(text.charCodeAt(pos))) scanDigits()
+    }
+
+    if (text[pos] === 'e' || text[pos] === 'E') {
+      pos++
+      if (text[pos] === '+' || text[pos] === '-') pos++
+      scanDigits()
+    }
+
+    return { kind: 'number', start, end: pos, value: text.slice(start, pos) }
+  }
+
+  function scanIdentifier(start: number): Token {
+    while (pos < text.length && IDENTIFIER_PART.test(text[pos])) pos++
+    const name = text.slice(start, pos)
+
+    if (name === 'true' || name === 'false' || name === 'null') {
+      return { kind: name, start, end: pos }
+    }
+    return { kind: 'identifier', start, end: pos, value: name }
+  }
+
+  function scanLiteral(start: number, word: 'true' | 'false' | 'null'): Token {
+    if (text.startsWith(word, pos) && !/[\w$]/.test(text[pos + word.length] ?? '')) {
+      pos += word.length
+      return { kind: word, start, end: pos }
+    }
+    return scanInvalid(start)
+  }
+
+  // Unrecognised input becomes a token so the parser can report what it expected
+  function scanInvalid(start: number): Token {
+    if (!isWordChar(text[pos])) {
+      pos++
+    } else {
+      while (pos < text.length && isWordChar(text[pos])) pos++
+    }
+    return { kind: 'invalid', start, end: pos }
+  }
+
+  return {
+    next(): Token {
+      skipTrivia()
+      const start = pos
+
+      if (pos >= text.length) {
+        return { kind: 'eof', start, end: pos }
+      }
+
+      const char = text[pos]
+
+      if (PUNCTUATORS.includes(char)) {
+        pos++
+        return { kind: char as TokenKind, start, end: pos }
+      }
+      if (char === '"' || (json5 && char === "'")) return scanString(start)
+      if (char === '-' || isDigit(char.charCodeAt(0))) return scanNumber(start)
+      if (json5 && (char === '+' || char === '.')) return scanNumber(start)
+      if (json5 && IDENTIFIER_START.test(char)) return scanIdentifier(start)
+      if (char === 't') return scanLiteral(start, 'true')
+      if (char === 'f') return scanLiteral(start, 'false')
+      if (char === 'n') return scanLiteral(start, 'null')
+
+      return scanInvalid(start)
+    }
+  }
+}
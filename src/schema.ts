@@ -0,0 +1,42 @@
+import type { SchemaConstruct, SchemaLiteral, SchemaRule, SchemaValue } from './types'
+
+// Schema keys are strings, so a symbol keeps these apart from nested object schemas
+export const SCHEMA_RULE: unique symbol = Symbol('handlejson.schema')
+
+function construct(rule: SchemaRule): SchemaConstruct {
+  return { [SCHEMA_RULE]: rule }
+}
+
+export function getRule(schema: SchemaValue): SchemaRule | undefined {
+  return typeof schema === 'object' && schema !== null && !Array.isArray(schema)
+    ? (schema as Partial<SchemaConstruct>)[SCHEMA_RULE]
+    : undefined
+}
+
+/**
+ * Matches any of the schemas, like `union('string', 'number')`.
+ */
+export function union(...schemas: SchemaValue[]): SchemaConstruct {
+  return construct({ kind: 'union', of: schemas })
+}
+
+/**
+ * Matches exactly this value.
+ */
+export function literal(value: SchemaLiteral): SchemaConstruct {
+  return construct({ kind: 'literal', values: [value] })
+}
+
+/**
+ * Matches any of these values, like `enumOf(['admin', 'user'])`.
+ */
+export function enumOf(values: readonly SchemaLiteral[]): SchemaConstruct {
+  return construct({ kind: 'literal', values: [...values] })
+}
+
+/**
+ * Matches the schema or null.
+ */
+export function nullable(schema: SchemaValue): SchemaConstruct {
+  return union(schema, 'null')
+}
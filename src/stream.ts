@@ -1,4 +1,8 @@
-import type { StreamParseOptions, StreamParseResult } from './types'
+import type { StreamParseOptions, StreamParseResult, StringifyStreamOptions } from './types'
+import { createSerializer } from './stringify'
+import { toHandleJsonError } from './errors'
+import { escapeJson } from './escape'
+import { createWriter } from './writer'
 
 /**
  * Parse large JSON in chunks. Supports ReadableStream or string input.
@@ -75,3 +79,66 @@ export async function parseStream<T = unknown>(
   }
 }
 
+
+/**
+ * Stringify lazily as string chunks, with the same semantics as `stringify`.
+ * Async iterables are written as arrays, so rows can come from a cursor or another stream.
+ */
+export async function* stringifyChunks(
+  value: unknown,
+  options?: StringifyStreamOptions
+): AsyncGenerator<string, void, undefined> {
+  const { replacer, adopt, literalMarker, sortKeys, space, escape } = createSerializer(options)
+  // Same indent JSON.stringify would use
+  const gap = typeof space === 'string' ? space.slice(0, 10) : ' '.repeat(Math.min(10, Math.max(0, space ?? 0)))
+  const writer = createWriter({
+    replacer, adopt, literalMarker, sortKeys, gap,
+    chunkSize: options?.chunkSize ?? 64 * 1024,
+    asyncIterables: true
+  })
+
+  const steps = writer.write(value)
+  let input: IteratorResult<unknown> | undefined
+  try {
+    while (true) {
+      const step = steps.next(input)
+      input = undefined
+      if (step.done) break
+      if (step.value) {
+        input = await step.value
+      } else {
+        yield escapeJson(writer.take(), escape)
+      }
+    }
+  } catch (error) {
+    throw toHandleJsonError(error, 'STRINGIFY')
+  } finally {
+    steps.return(false)
+  }
+
+  const rest = writer.take()
+  if (rest) yield escapeJson(rest, escape)
+}
+
+/**
+ * Stringify lazily as a stream of UTF-8 bytes, for values too large to hold as one string.
+ */
+export function stringifyStream(value: unknown, options?: StringifyStreamOptions): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const chunks = stringifyChunks(value, options)
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value: chunk } = await chunks.next()
+        if (done) controller.close()
+        else controller.enqueue(encoder.encode(chunk))
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    }
+  })
+}
@@ -1,55 +1,278 @@
-import type { StringifyOptions, StringifyResult, DateSerializationMode } from './types'
+import type { StringifyOptions, StringifyResult, DateSerializationMode, PathContext, ReferenceMode } from './types'
+import { toHandleJsonError, HandleJsonError } from './errors'
+import { createPathContext, formatPath, formatPointer } from './parser'
+import { encodeType } from './codecs'
+import { createRedactor } from './redact'
+import { truncateArray, truncateOutput, truncateString } from './truncate'
+import { escapeJson } from './escape'
+import { writeSync } from './writer'
 
-function isDate(value: unknown): value is Date {
-  return value instanceof Date
+type Replacer = (key: string, value: unknown, context?: PathContext) => unknown
+
+type ReplacerSettings = {
+  // Prefix for strings to write without quotes: bigint digits and -0
+  literalMarker?: string
+  bigintLiteral?: boolean
+  withPath?: boolean
+  timestamps?: boolean
+  types?: boolean | string[]
+  references?: ReferenceMode
+  canonical?: boolean
+  redact?: ReturnType<typeof createRedactor>
+  maxDepth?: number
+  maxArrayLength?: number
+  maxStringLength?: number
+  // Collects the paths of everything shortened
+  truncated?: string[]
+  nonFinite?: StringifyOptions['nonFinite']
+  undefinedValues?: StringifyOptions['undefinedValues']
+  negativeZero?: StringifyOptions['negativeZero']
 }
 
-function transformDatesForTimestamp(value: unknown, seen: WeakSet<object>): unknown {
-  if (isDate(value)) {
-    return value.getTime()
+// RFC 8785 only allows well-formed UTF-16
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/
+
+function createCircularReplacer(customReplacer?: Replacer, settings: ReplacerSettings = {}) {
+  const { literalMarker, bigintLiteral, withPath, timestamps, types, references = 'placeholder', canonical, redact } = settings
+  const { maxDepth, maxArrayLength, maxStringLength, truncated, nonFinite, undefinedValues, negativeZero } = settings
+  const trackPaths = withPath || canonical || redact || references !== 'placeholder' ||
+    maxDepth !== undefined || maxArrayLength !== undefined || maxStringLength !== undefined ||
+    nonFinite === 'error' || undefinedValues === 'error' || negativeZero === 'error'
+  // JSON.stringify only passes the holder, so remember where each container was written
+  const parents = new WeakMap<object, object>()
+  const paths = new WeakMap<object, Array<string | number>>()
+  // Objects written in place of another (codec wrappers, truncated arrays), mapped to the original
+  const origins = new WeakMap<object, object>()
+  // Codec wrappers, whose contents must not be tagged again
+  const tagged = new WeakSet<object>()
+  // First path of each object, for 'pointer'
+  const written = new WeakMap<object, Array<string | number>>()
+  // Arrays cut by maxArrayLength, whose last item is our marker
+  const shortened = new WeakSet<unknown[]>()
+  
+  // A cycle only exists if the object is one of its own ancestors, not just seen before
+  function isAncestor(holder: object, target: object): boolean {
+    for (let node: object | undefined = holder; node; node = parents.get(node)) {
+      if (node === target || origins.get(node) === target) return true
+    }
+    return false
+  }
+  
+  function truncate(path: Array<string | number> | undefined): void {
+    truncated?.push(formatPath(path ?? []))
+  }
+  
+  // Let `holder` stand in for `container`, for items written from somewhere other than the container itself
+  function adopt(holder: object, container: object): void {
+    parents.set(holder, container)
+    const path = paths.get(container)
+    if (path) paths.set(holder, path)
   }
   
-  if (typeof value === 'object' && value !== null) {
-    if (seen.has(value)) {
-      return '[Circular]'
+  function replacer(this: Record<string, unknown>, key: string, value: unknown) {
+    if (Array.isArray(this) && shortened.has(this) && Number(key) === this.length - 1) return value
+    
+    let path: Array<string | number> | undefined
+    // The property before toJSON ran, so Dates and URLs can still be recognised
+    const raw = this[key]
+    let encoded: object | undefined
+    
+    if (trackPaths) {
+      const parentPath = paths.get(this)
+      path = parentPath ? [...parentPath, Array.isArray(this) ? Number(key) : key] : []
     }
-    seen.add(value)
     
-    if (Array.isArray(value)) {
-      return value.map(item => transformDatesForTimestamp(item, seen))
+    if (timestamps && raw instanceof Date) {
+      value = raw.getTime()
     }
     
-    const transformed: Record<string, unknown> = {}
-    for (const key in value) {
-      transformed[key] = transformDatesForTimestamp((value as Record<string, unknown>)[key], seen)
+    if (types && !tagged.has(this)) {
+      encoded = encodeType(raw, types)
+      if (encoded) {
+        tagged.add(encoded)
+        value = encoded
+      }
     }
-    return transformed
-  }
-  
-  return value
-}
-
-function createCircularReplacer(
-  customReplacer?: (key: string, value: unknown) => unknown
-) {
-  const seen = new WeakSet()
-  
-  return (key: string, value: unknown) => {
+    
+    const input = value
     if (customReplacer) {
-      value = customReplacer(key, value)
+      value = withPath && path
+        ? customReplacer.call(this, key, value, createPathContext(path, path.length === 0 ? undefined : this))
+        : customReplacer.call(this, key, value)
+    }
+    
+    // After the user's replacer, so whatever it returns is still covered
+    let redacted = false
+    if (redact) {
+      const unredacted = value
+      value = redact(this, key, value, path ?? [])
+      redacted = value !== unredacted
+    }
+    
+    // Only undefined in the data: a replacer returning undefined still drops the key
+    if (value === undefined && input === undefined && undefinedValues !== undefined && undefinedValues !== 'omit') {
+      if (undefinedValues === 'error') throw invalidValue('undefined is not valid JSON', path ?? [])
+      value = null
+    }
+    
+    if (typeof value === 'number' && !Number.isFinite(value) && nonFinite !== undefined && nonFinite !== 'null') {
+      if (nonFinite === 'error') throw invalidValue(`${value} is not valid JSON`, path ?? [])
+      value = String(value)
+    }
+    
+    if (Object.is(value, -0) && negativeZero !== undefined && negativeZero !== 'zero') {
+      if (negativeZero === 'error') throw invalidValue('-0 would be written as 0', path ?? [])
+      // RFC 8785 always writes 0
+      if (!canonical) return literalMarker + '-0'
+    }
+    
+    // Replacements are not data, and a shortened mask or hash would no longer match the value
+    if (maxStringLength !== undefined && !redacted && typeof value === 'string' && value.length > maxStringLength) {
+      value = truncateString(value, maxStringLength)
+      truncate(path)
+    }
+    
+    if (canonical) {
+      checkCanonical(value, path ?? [])
     }
     
     if (typeof value === 'bigint') {
-      return value.toString() + 'n'
+      if (canonical && bigintLiteral) {
+        // JCS numbers are doubles, so only integers that survive the round trip can be written raw
+        if (!Number.isSafeInteger(Number(value))) {
+          throw invalidValue(`Canonical JSON cannot represent ${value} as a number`, path ?? [])
+        }
+        return Number(value)
+      }
+      return bigintLiteral ? literalMarker + value.toString() : value.toString() + 'n'
     }
     
     if (typeof value === 'object' && value !== null) {
-      if (seen.has(value)) return '[Circular]'
-      seen.add(value)
+      const identity: object = value === encoded && typeof raw === 'object' && raw !== null ? raw : value
+      
+      if (maxDepth !== undefined && path && path.length > maxDepth) {
+        truncate(path)
+        return Array.isArray(value) ? '[Array]' : '[Object]'
+      }
+      
+      if (references === 'pointer') {
+        const first = written.get(identity)
+        if (first) return { $ref: '#' + formatPointer(first) }
+        written.set(identity, path ?? [])
+      } else if (isAncestor(this, identity)) {
+        if (references === 'duplicate') {
+          const at = formatPath(path ?? [])
+          throw new HandleJsonError('CIRCULAR', `Circular reference at '${at}'`, { path: at })
+        }
+        return '[Circular]'
+      }
+      
+      // The writer sorts the members, but keys must be representable first
+      if (canonical && !Array.isArray(value)) checkCanonicalKeys(value as Record<string, unknown>, path ?? [])
+      
+      if (maxArrayLength !== undefined && Array.isArray(value) && value.length > maxArrayLength) {
+        value = truncateArray(value, maxArrayLength)
+        shortened.add(value as unknown[])
+        truncate(path)
+      }
+      
+      parents.set(value as object, this)
+      if (value !== identity) origins.set(value as object, identity)
+      if (path) paths.set(value as object, path)
     }
     
     return value
   }
+  
+  return { replacer, adopt }
+}
+
+function invalidValue(message: string, path: Array<string | number>): HandleJsonError {
+  const at = formatPath(path)
+  return new HandleJsonError('INVALID_VALUE', `${message} at '${at}'`, { path: at })
+}
+
+// Reject what RFC 8785 cannot represent instead of writing something lossy
+function checkCanonical(value: unknown, path: Array<string | number>): void {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw invalidValue(`Canonical JSON cannot represent ${value}`, path)
+  }
+  if (typeof value === 'string' && LONE_SURROGATE.test(value)) {
+    throw invalidValue('Canonical JSON cannot represent a lone surrogate', path)
+  }
+}
+
+function checkCanonicalKeys(value: Record<string, unknown>, path: Array<string | number>): void {
+  for (const key of Object.keys(value)) {
+    if (LONE_SURROGATE.test(key)) {
+      throw invalidValue('Canonical JSON cannot represent a lone surrogate', [...path, key])
+    }
+  }
+}
+
+/**
+ * The replacer stringify hands to JSON.stringify, with the settings needed to finish its output.
+ * Shared with stringifyStream, which walks values itself.
+ */
+export function createSerializer(options?: StringifyOptions, truncated?: string[]) {
+  const datesEnabled = options?.dates !== undefined && options?.dates !== false
+  const mode: DateSerializationMode = options?.dates === true ? 'iso' : (options?.dates || 'iso')
+  const space = options?.canonical ? undefined : options?.space
+  const escape = options?.canonical ? undefined : options?.escape
+  
+  // JSON.stringify cannot emit raw bigint digits or -0, so mark them as strings and unquote afterwards
+  const bigintLiteral = options?.bigint === 'literal'
+  const literalMarker = bigintLiteral || options?.negativeZero === 'preserve'
+    ? `@@literal:${Math.random().toString(36).slice(2)}:`
+    : undefined
+  
+  // A pathReplacer always gets its context, since it turns on path tracking
+  const { replacer, adopt } = createCircularReplacer((options?.pathReplacer ?? options?.replacer) as Replacer | undefined, {
+    literalMarker,
+    bigintLiteral,
+    withPath: options?.pathReplacer !== undefined,
+    timestamps: datesEnabled && mode === 'timestamp',
+    types: options?.types,
+    references: options?.references,
+    canonical: options?.canonical,
+    redact: options?.redact ? createRedactor(options.redact) : undefined,
+    maxDepth: options?.maxDepth,
+    maxArrayLength: options?.maxArrayLength,
+    maxStringLength: options?.maxStringLength,
+    truncated,
+    nonFinite: options?.nonFinite,
+    undefinedValues: options?.undefinedValues,
+    negativeZero: options?.negativeZero
+  })
+  
+  // Members in UTF-16 code unit order, which is what the default sort compares
+  const sortKeys = options?.canonical === true
+  
+  return { replacer, adopt, literalMarker, sortKeys, space, escape }
+}
+
+function serialize(value: unknown, options?: StringifyOptions, truncated?: string[]): string {
+  const { replacer, adopt, literalMarker, sortKeys, space, escape } = createSerializer(options, truncated)
+  // JSON.stringify lists integer-like keys first, so sorted output needs our own writer.
+  // Both return undefined for values like functions, which the lib types for JSON.stringify leave out
+  const result = sortKeys
+    ? writeSync(value, { replacer, adopt, literalMarker, sortKeys, gap: '' }) as string
+    : JSON.stringify(value, replacer, space)
+  
+  const unquoted = literalMarker && result !== undefined
+    ? result.replace(new RegExp(`"${literalMarker}(-?\\d+)"`, 'g'), '$1')
+    : result
+  // Before truncation, so escapes count towards maxOutputLength
+  const json = escape && unquoted !== undefined ? escapeJson(unquoted, escape) : unquoted
+  
+  const maxOutputLength = options?.maxOutputLength
+  if (maxOutputLength === undefined || json === undefined || json.length <= maxOutputLength) return json
+  
+  // Same indent JSON.stringify used: at most 10 characters
+  const indent = typeof space === 'string' ? space.slice(0, 10) : ' '.repeat(Math.min(10, Math.max(0, space ?? 0)))
+  const cut = truncateOutput(json, maxOutputLength, indent)
+  truncated?.push(formatPath(cut.path))
+  return cut.text
 }
 
 /**
@@ -57,47 +280,28 @@ function createCircularReplacer(
  */
 export function stringify(value: unknown, options?: StringifyOptions): string | null {
   try {
-    const datesEnabled = options?.dates !== undefined && options?.dates !== false
-    const mode: DateSerializationMode = options?.dates === true ? 'iso' : (options?.dates || 'iso')
-    
-    let valueToStringify = value
-    if (datesEnabled && mode === 'timestamp') {
-      const seen = new WeakSet()
-      valueToStringify = transformDatesForTimestamp(value, seen)
-    }
-    
-    return JSON.stringify(
-      valueToStringify, 
-      createCircularReplacer(options?.replacer), 
-      options?.space
-    )
+    return serialize(value, options)
   } catch {
     return null
   }
 }
 
+/**
+ * Canonical JSON (RFC 8785): sorted keys, no whitespace, ECMAScript numbers. Returns null on error.
+ */
+export function canonicalize(value: unknown, options?: Omit<StringifyOptions, 'canonical' | 'space'>): string | null {
+  return stringify(value, { ...options, canonical: true })
+}
+
 /**
  * Stringify with error tuple. Returns [result, error] instead of null.
  */
 export function tryStringify(value: unknown, options?: StringifyOptions | number): StringifyResult {
   try {
-    const space = typeof options === 'number' ? options : options?.space
-    const replacer = typeof options === 'number' ? undefined : options?.replacer
-    const dates = typeof options === 'number' ? undefined : options?.dates
-    
-    const datesEnabled = dates !== undefined && dates !== false
-    const mode: DateSerializationMode = dates === true ? 'iso' : (dates || 'iso')
-    
-    let valueToStringify = value
-    if (datesEnabled && mode === 'timestamp') {
-      const seen = new WeakSet()
-      valueToStringify = transformDatesForTimestamp(value, seen)
-    }
-    
-    const result = JSON.stringify(valueToStringify, createCircularReplacer(replacer), space)
-    return [result, null]
+    const truncated: string[] = []
+    const result = serialize(value, typeof options === 'number' ? { space: options } : options, truncated)
+    return [result, null, { truncated }]
   } catch (error) {
-    return [null, error instanceof Error ? error : new Error(String(error))]
+    return [null, toHandleJsonError(error, 'STRINGIFY')]
   }
 }
-
@@ -0,0 +1,531 @@
+import type { EditOptions, JsonNode, JsonSyntax, TextEdit } from './types'
+import { createScanner, describeAt, type Token } from './scanner'
+import { HandleJsonError, JsonSyntaxError, toHandleJsonError } from './errors'
+import { convertNumber, formatPath, formatPointer, setProperty } from './parser'
+import { tryStringify } from './stringify'
+
+const COMMENT = /\/\/[^\n\r\u2028\u2029]*|\/\*[\s\S]*?\*\//g
+
+function buildTree(text: string, syntax: JsonSyntax): JsonNode {
+  const scanner = createScanner(text, { syntax })
+  const trailingCommas = syntax !== 'json'
+  const json5 = syntax === 'json5'
+  const stack: JsonNode[] = []
+  let root: JsonNode | undefined
+  let token = scanner.next()
+
+  function fail(expected: string): never {
+    throw new JsonSyntaxError(text, token.start, expected, describeAt(text, token.start))
+  }
+
+  // Reads `"key" :` into a new property and leaves `token` at the start of its value
+  function readKey(object: JsonNode): void {
+    let key: string
+    if (token.kind === 'string' || (json5 && token.kind === 'identifier')) {
+      key = token.value ?? ''
+    } else if (json5 && (token.kind === 'true' || token.kind === 'false' || token.kind === 'null')) {
+      key = token.kind
+    } else {
+      fail(json5 ? 'property name' : 'string')
+    }
+
+    const property: JsonNode = { type: 'property', offset: token.start, length: 0, parent: object, children: [] }
+    property.children!.push({ type: 'string', offset: token.start, length: token.end - token.start, value: key, parent: property })
+    object.children!.push(property)
+
+    token = scanner.next()
+    if (token.kind !== ':') fail(`':'`)
+    property.colonOffset = token.start
+    token = scanner.next()
+  }
+
+  function leaf(type: JsonNode['type'], value: unknown, parent?: JsonNode): JsonNode {
+    return { type, offset: token.start, length: token.end - token.start, value, parent }
+  }
+
+  while (true) {
+    const container = stack[stack.length - 1]
+    // Values in an object hang off their property
+    const parent = container?.type === 'object' ? container.children![container.children!.length - 1] : container
+    let node: JsonNode
+
+    switch (token.kind) {
+      case '{':
+      case '[': {
+        node = { type: token.kind === '{' ? 'object' : 'array', offset: token.start, length: 0, parent, children: [] }
+        const closer = token.kind === '{' ? '}' : ']'
+        parent?.children!.push(node)
+        token = scanner.next()
+        if (token.kind === closer) {
+          node.length = token.end - node.offset
+          break
+        }
+        stack.push(node)
+        if (node.type === 'object') readKey(node)
+        root ??= node
+        continue
+      }
+      case 'string':
+        node = leaf('string', token.value, parent)
+        parent?.children!.push(node)
+        break
+      case 'number':
+        node = leaf('number', convertNumber(token.value ?? ''), parent)
+        parent?.children!.push(node)
+        break
+      case 'identifier':
+        if (!json5 || (token.value !== 'Infinity' && token.value !== 'NaN')) fail('value')
+        node = leaf('number', token.value === 'Infinity' ? Infinity : NaN, parent)
+        parent?.children!.push(node)
+        break
+      case 'true':
+      case 'false':
+        node = leaf('boolean', token.kind === 'true', parent)
+        parent?.children!.push(node)
+        break
+      case 'null':
+        node = leaf('null', null, parent)
+        parent?.children!.push(node)
+        break
+      default:
+        fail('value')
+    }
+    root ??= node
+
+    // Close any containers that end here
+    while (true) {
+      const frame = stack[stack.length - 1]
+      token = scanner.next()
+
+      if (!frame) {
+        if (token.kind !== 'eof') fail('end of input')
+        return root
+      }
+
+      if (frame.type === 'object') {
+        const property = frame.children![frame.children!.length - 1]
+        property.length = node.offset + node.length - property.offset
+      }
+
+      const closer = frame.type === 'object' ? '}' : ']'
+      if (token.kind === closer) {
+        frame.length = token.end - frame.offset
+        stack.pop()
+        node = frame
+        continue
+      }
+      if (token.kind !== ',') fail(`',' or '${closer}'`)
+
+      token = scanner.next()
+      if (trailingCommas && token.kind === closer) {
+        frame.length = token.end - frame.offset
+        stack.pop()
+        node = frame
+        continue
+      }
+      if (frame.type === 'object') readKey(frame)
+      break
+    }
+  }
+}
+
+/**
+ * Parse JSON into a syntax tree with the offset and length of every value, for editing the text in place.
+ * Accepts comments and trailing commas unless `syntax` is 'json'. Throws HandleJsonError on invalid input.
+ */
+export function parseTree(text: string, options?: Pick<EditOptions, 'syntax'>): JsonNode {
+  try {
+    return buildTree(text, options?.syntax ?? 'jsonc')
+  } catch (error) {
+    throw toHandleJsonError(error, 'SYNTAX')
+  }
+}
+
+/**
+ * Apply edits from `modify` or `remove` to the text they were computed for.
+ */
+export function applyEdits(text: string, edits: TextEdit[]): string {
+  let result = text
+  // From the end, so earlier offsets stay valid. Edits at the same offset keep their order
+  const order = edits.map((edit, index) => ({ edit, index }))
+    .sort((a, b) => b.edit.offset - a.edit.offset || b.index - a.index)
+  for (const { edit } of order) {
+    result = result.slice(0, edit.offset) + edit.content + result.slice(edit.offset + edit.length)
+  }
+  return result
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return []
+  if (!pointer.startsWith('/')) {
+    throw new HandleJsonError('INVALID_VALUE', `Invalid JSON Pointer '${pointer}'`)
+  }
+  return pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+function childOf(node: JsonNode, segment: string): JsonNode | undefined {
+  if (node.type === 'object') {
+    // The last duplicate wins, as in parse
+    for (let i = node.children!.length - 1; i >= 0; i--) {
+      const property = node.children![i]
+      if (property.children![0].value === segment) return property.children![1]
+    }
+    return undefined
+  }
+  if (node.type === 'array' && /^(0|[1-9]\d*)$/.test(segment)) {
+    return node.children![Number(segment)]
+  }
+  return undefined
+}
+
+function lineStart(text: string, offset: number): number {
+  let pos = offset
+  while (pos > 0 && text[pos - 1] !== '\n' && text[pos - 1] !== '\r') pos--
+  return pos
+}
+
+function lineIndent(text: string, offset: number): string {
+  const start = lineStart(text, offset)
+  return /^[ \t]*/.exec(text.slice(start, offset))![0]
+}
+
+function isFirstOnLine(text: string, offset: number): boolean {
+  return text.slice(lineStart(text, offset), offset).trim() === ''
+}
+
+function skipSpaces(text: string, pos: number): number {
+  while (text[pos] === ' ' || text[pos] === '\t') pos++
+  return pos
+}
+
+function skipSpacesBack(text: string, pos: number): number {
+  while (text[pos - 1] === ' ' || text[pos - 1] === '\t') pos--
+  return pos
+}
+
+// Position of the next token, past whitespace and comments
+function skipTrivia(text: string, pos: number): number {
+  while (pos < text.length) {
+    if (/\s/.test(text[pos])) {
+      pos++
+    } else if (text.startsWith('//', pos)) {
+      while (pos < text.length && text[pos] !== '\n' && text[pos] !== '\r') pos++
+    } else if (text.startsWith('/*', pos)) {
+      const end = text.indexOf('*/', pos + 2)
+      pos = end === -1 ? text.length : end + 2
+    } else {
+      break
+    }
+  }
+  return pos
+}
+
+// Where the line ends, if only spaces and a comment follow `pos` on it
+function endOfLine(text: string, pos: number): number | undefined {
+  pos = skipSpaces(text, pos)
+  if (text.startsWith('//', pos)) {
+    while (pos < text.length && text[pos] !== '\n' && text[pos] !== '\r') pos++
+  } else if (text.startsWith('/*', pos)) {
+    const end = text.indexOf('*/', pos + 2)
+    if (end === -1 || /[\n\r]/.test(text.slice(pos, end))) return undefined
+    pos = skipSpaces(text, end + 2)
+  }
+  return pos === text.length || text[pos] === '\n' || text[pos] === '\r' ? pos : undefined
+}
+
+function newlineLength(text: string, pos: number): number {
+  if (text.startsWith('\r\n', pos)) return 2
+  return pos < text.length ? 1 : 0
+}
+
+type Style = {
+  indent: string
+  eol: string
+}
+
+// Follow the document: its first indented line sets the indent, and CRLF anywhere means CRLF
+function detectStyle(text: string, options?: EditOptions): Style {
+  const detected = /\n([ \t]+)\S/.exec(text)?.[1]
+  const indent = options?.space !== undefined
+    ? typeof options.space === 'number' ? ' '.repeat(Math.min(10, options.space)) : options.space
+    : detected?.startsWith('\t') ? '\t' : detected ?? '  '
+  const eol = options?.eol ?? (text.includes('\r\n') ? '\r\n' : '\n')
+  return { indent, eol }
+}
+
+function formatValue(value: unknown, indent: string, base: string, eol: string): string {
+  const [json, error] = tryStringify(value, { space: indent })
+  if (error) throw error
+  if (json === undefined) throw new HandleJsonError('INVALID_VALUE', `${typeof value} cannot be written as JSON`)
+  return json.replace(/\n/g, eol + base)
+}
+
+// `"key": ` with the same spacing as the object's other properties
+function keyPrefix(text: string, object: JsonNode, key: string, multiline: boolean): string {
+  const sample = object.children!.find(child => child.colonOffset !== undefined)
+  const space = sample ? text[sample.colonOffset! + 1] === ' ' : multiline
+  return JSON.stringify(key) + (space ? ': ' : ':')
+}
+
+function insertMember(text: string, container: JsonNode, key: string | undefined, value: unknown, style: Style): TextEdit[] {
+  const children = container.children!
+  const open = container.offset + 1
+  const close = container.offset + container.length - 1
+
+  if (children.length === 0) {
+    // Empty containers grow onto new lines in a multi-line document
+    const multiline = /[\n\r]/.test(text)
+    const base = lineIndent(text, container.offset)
+    const prefix = key === undefined ? '' : keyPrefix(text, container, key, multiline)
+    const interior = text.slice(open, close)
+
+    if (!multiline) {
+      return [{ offset: open, length: interior.length, content: prefix + formatValue(value, '', '', style.eol) }]
+    }
+    const member = base + style.indent + prefix + formatValue(value, style.indent, base + style.indent, style.eol)
+    return interior.trim() === ''
+      ? [{ offset: open, length: interior.length, content: style.eol + member + style.eol + base }]
+      : [{ offset: open, length: 0, content: style.eol + member }]
+  }
+
+  const last = children[children.length - 1]
+  const lastEnd = last.offset + last.length
+  const afterLast = skipTrivia(text, lastEnd)
+  const trailingComma = afterLast < close && text[afterLast] === ','
+  const multiline = /[\n\r]/.test(text.slice(container.offset, close))
+  const prefix = key === undefined ? '' : keyPrefix(text, container, key, multiline)
+
+  if (multiline) {
+    // Insert after any comment on the last member's line, so the comment stays with it
+    const lineEnd = endOfLine(text, trailingComma ? afterLast + 1 : lastEnd)
+    if (lineEnd !== undefined) {
+      const indent = lineIndent(text, last.offset)
+      const member = indent + prefix + formatValue(value, style.indent, indent, style.eol)
+      const edits: TextEdit[] = []
+      if (!trailingComma) edits.push({ offset: lastEnd, length: 0, content: ',' })
+      edits.push({ offset: lineEnd, length: 0, content: style.eol + member + (trailingComma ? ',' : '') })
+      return edits
+    }
+  }
+
+  // Space after commas like the container does, or after colons if there is no comma yet
+  const separator = children.length > 1
+    ? /^,\s/.test(text.slice(skipTrivia(text, children[0].offset + children[0].length))) ? ', ' : ','
+    : /[\n\r]/.test(text) || prefix.endsWith(' ') ? ', ' : ','
+  return [{ offset: lastEnd, length: 0, content: separator + prefix + formatValue(value, '', '', style.eol) }]
+}
+
+/**
+ * Text edits that set the value at a JSON Pointer, keeping comments and formatting elsewhere.
+ * Missing parents are created. Use '-' or the array length to append to an array.
+ * Setting undefined removes the value. Throws HandleJsonError for invalid text or unreachable pointers.
+ */
+export function modify(text: string, pointer: string, value: unknown, options?: EditOptions): TextEdit[] {
+  if (value === undefined) return remove(text, pointer, options)
+
+  const segments = parsePointer(pointer)
+  const root = parseTree(text, options)
+  const style = detectStyle(text, options)
+
+  let node = root
+  let depth = 0
+  for (; depth < segments.length; depth++) {
+    const child = childOf(node, segments[depth])
+    if (!child) break
+    node = child
+  }
+
+  if (depth === segments.length) {
+    const base = lineIndent(text, node.offset)
+    return [{ offset: node.offset, length: node.length, content: formatValue(value, style.indent, base, style.eol) }]
+  }
+
+  // Build the missing part as nested objects, or an array for an append
+  let inserted = value
+  for (let i = segments.length - 1; i > depth; i--) {
+    if (segments[i] === '-') {
+      inserted = [inserted]
+      continue
+    }
+    const wrapper: Record<string, unknown> = {}
+    setProperty(wrapper, segments[i], inserted)
+    inserted = wrapper
+  }
+
+  const segment = segments[depth]
+  if (node.type === 'object') {
+    return insertMember(text, node, segment, inserted, style)
+  }
+  if (node.type === 'array' && (segment === '-' || segment === String(node.children!.length))) {
+    return insertMember(text, node, undefined, inserted, style)
+  }
+
+  const at = formatPointer(segments.slice(0, depth))
+  const reason = node.type === 'array' ? `index ${segment} is out of range` : `'${at}' is not an object or array`
+  throw new HandleJsonError('INVALID_VALUE', `Cannot set '${pointer}': ${reason}`, {
+    path: formatPath(segments.slice(0, depth + 1))
+  })
+}
+
+/**
+ * Text edits that remove the value at a JSON Pointer with its comma, and its line if it had one to itself.
+ * Returns no edits if the pointer does not exist. Throws HandleJsonError for invalid text.
+ */
+export function remove(text: string, pointer: string, options?: EditOptions): TextEdit[] {
+  const segments = parsePointer(pointer)
+  if (segments.length === 0) {
+    throw new HandleJsonError('INVALID_VALUE', 'Cannot remove the root value')
+  }
+
+  let node: JsonNode | undefined = parseTree(text, options)
+  for (const segment of segments) {
+    node = childOf(node, segment)
+    if (!node) return []
+  }
+
+  const member = node.parent!.type === 'property' ? node.parent! : node
+  const container = member.parent!
+  const siblings = container.children!
+  const index = siblings.indexOf(member)
+  const memberEnd = member.offset + member.length
+  const afterMember = skipTrivia(text, memberEnd)
+  const ownLine = isFirstOnLine(text, member.offset)
+
+  // Whole lines, including a comment after the member
+  function removeLines(from: number): TextEdit[] {
+    const start = lineStart(text, member.offset)
+    const end = endOfLine(text, from)!
+    return [{ offset: start, length: end + newlineLength(text, end) - start, content: '' }]
+  }
+
+  if (text[afterMember] === ',') {
+    if (ownLine && endOfLine(text, afterMember + 1) !== undefined) return removeLines(afterMember + 1)
+    if (index > 0 && index === siblings.length - 1) {
+      // A trailing comma: the one before now ends the list, with nothing left dangling after it
+      const start = skipSpacesBack(text, member.offset)
+      return [{ offset: start, length: afterMember + 1 - start, content: '' }]
+    }
+    const end = skipSpaces(text, afterMember + 1)
+    return [{ offset: member.offset, length: end - member.offset, content: '' }]
+  }
+
+  if (index === 0) {
+    // The only member: empty the container, unless it holds comments worth keeping
+    const open = container.offset + 1
+    const close = container.offset + container.length - 1
+    if (text.slice(open, close).replace(text.slice(member.offset, memberEnd), '').trim() === '') {
+      return [{ offset: open, length: close - open, content: '' }]
+    }
+    if (ownLine && endOfLine(text, memberEnd) !== undefined) return removeLines(memberEnd)
+    return [{ offset: member.offset, length: member.length, content: '' }]
+  }
+
+  // The last member: the comma before it goes too
+  const previous = siblings[index - 1]
+  const comma = skipTrivia(text, previous.offset + previous.length)
+  const lineEnd = endOfLine(text, memberEnd)
+  if (ownLine && lineEnd !== undefined) {
+    // From the end of the line before, so comments on earlier lines stay
+    let start = lineStart(text, member.offset)
+    start -= text.startsWith('\r\n', start - 2) ? 2 : 1
+    return [
+      { offset: comma, length: 1, content: '' },
+      { offset: start, length: lineEnd - start, content: '' }
+    ]
+  }
+  // Only the comma and the member, so comments between them stay
+  const start = Math.max(comma + 1, skipSpacesBack(text, member.offset))
+  if (start === comma + 1) return [{ offset: comma, length: memberEnd - comma, content: '' }]
+  return [
+    { offset: comma, length: 1, content: '' },
+    { offset: start, length: memberEnd - start, content: '' }
+  ]
+}
+
+/**
+ * Re-indent a JSONC or JSON5 document, keeping comments, trailing commas and how each value was written.
+ * Throws HandleJsonError on invalid input.
+ */
+export function formatDocument(text: string, syntax: JsonSyntax, indent: string): string {
+  parseTree(text, { syntax })
+
+  const scanner = createScanner(text, { syntax })
+  const tokens: Token[] = []
+  for (let token = scanner.next(); ; token = scanner.next()) {
+    tokens.push(token)
+    if (token.kind === 'eof') break
+  }
+
+  let output = ''
+  let depth = 0
+  let lineBreak = false
+  let space = false
+
+  function write(piece: string): void {
+    if (lineBreak && output !== '') output += '\n' + indent.repeat(depth)
+    else if (space) output += ' '
+    lineBreak = false
+    space = false
+    output += piece
+  }
+
+  function writeComments(from: number, to: number): void {
+    const trivia = text.slice(from, to)
+    for (const match of trivia.matchAll(COMMENT)) {
+      const sameLine = output !== '' && !/[\n\r\u2028\u2029]/.test(trivia.slice(0, match.index))
+      if (sameLine) {
+        output += ' ' + match[0]
+      } else {
+        lineBreak = true
+        write(match[0])
+      }
+      // Whatever follows a line comment has to start on a new line
+      if (match[0].startsWith('//')) lineBreak = true
+      else space = !lineBreak
+    }
+  }
+
+  let previousEnd = 0
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    writeComments(previousEnd, token.start)
+    previousEnd = token.end
+    if (token.kind === 'eof') break
+
+    const next = tokens[i + 1]
+    switch (token.kind) {
+      case '{':
+      case '[': {
+        const closer = token.kind === '{' ? '}' : ']'
+        if (next.kind === closer && text.slice(token.end, next.start).trim() === '') {
+          write(token.kind + closer)
+          previousEnd = next.end
+          i++
+        } else {
+          write(token.kind)
+          depth++
+          lineBreak = true
+        }
+        break
+      }
+      case '}':
+      case ']':
+        depth--
+        lineBreak = true
+        write(token.kind)
+        break
+      case ',':
+        write(',')
+        lineBreak = true
+        break
+      case ':':
+        write(':')
+        space = true
+        break
+      default:
+        write(text.slice(token.start, token.end))
+    }
+  }
+
+  return output
+}
@@ -0,0 +1,113 @@
+const MARKER = '"[Truncated]"'
+
+type Frame = {
+  closer: '}' | ']'
+  // Key or index of the member being written
+  key: string | number
+}
+
+// Where output can be cut: right after a container opened or one of its members ended
+type CutPoint = {
+  end: number
+  frames: Frame[]
+  hasMembers: boolean
+}
+
+/**
+ * Shorten a string to `max` characters, saying how much was dropped. Never splits a surrogate pair.
+ */
+export function truncateString(value: string, max: number): string {
+  if (value.length <= max) return value
+  let cut = max
+  const code = value.charCodeAt(cut - 1)
+  if (code >= 0xd800 && code <= 0xdbff) cut--
+  return `${value.slice(0, cut)}... ${value.length - cut} more characters`
+}
+
+/**
+ * Keep the first `max` items, with a marker in place of the rest.
+ */
+export function truncateArray(value: unknown[], max: number): unknown[] {
+  const rest = value.length - max
+  return [...value.slice(0, max), `... ${rest} more ${rest === 1 ? 'item' : 'items'}`]
+}
+
+function suffixFor(point: CutPoint, indent: string): string {
+  const depth = point.frames.length
+  const top = point.frames[depth - 1]
+  const newline = (level: number) => indent ? '\n' + indent.repeat(level) : ''
+
+  let suffix = (point.hasMembers ? ',' : '') + newline(depth)
+  suffix += top.closer === ']' ? MARKER : `${MARKER}:${indent ? ' ' : ''}true`
+  for (let level = depth; level > 0; level--) {
+    suffix += newline(level - 1) + point.frames[level - 1].closer
+  }
+  return suffix
+}
+
+/**
+ * Cut JSON.stringify output to at most `max` characters while keeping it valid JSON.
+ * Whole members are dropped from the end and a "[Truncated]" marker is left in the innermost container.
+ * Returns the path segments of that container, or an empty path when only the marker fits.
+ * The marker alone is returned even when `max` is below its 13 characters, since nothing shorter says what happened.
+ */
+export function truncateOutput(
+  text: string,
+  max: number,
+  indent: string
+): { text: string, path: Array<string | number> } {
+  const frames: Frame[] = []
+  let expectKey = false
+  let best: { text: string, path: Array<string | number> } | undefined
+
+  const consider = (end: number, hasMembers: boolean) => {
+    if (frames.length === 0) return
+    const point = { end, frames, hasMembers }
+    const suffix = suffixFor(point, indent)
+    if (end + suffix.length <= max) {
+      best = { text: text.slice(0, end) + suffix, path: frames.slice(0, -1).map(frame => frame.key) }
+    }
+  }
+
+  let pos = 0
+  while (pos < text.length && pos <= max) {
+    const char = text[pos]
+    const top = frames[frames.length - 1]
+
+    if (char === '"') {
+      let end = pos + 1
+      while (text[end] !== '"') end += text[end] === '\\' ? 2 : 1
+      end++
+      if (top && top.closer === '}' && expectKey) {
+        top.key = JSON.parse(text.slice(pos, end)) as string
+        expectKey = false
+      } else {
+        consider(end, true)
+      }
+      pos = end
+    } else if (char === '{' || char === '[') {
+      frames.push({ closer: char === '{' ? '}' : ']', key: char === '{' ? '' : 0 })
+      expectKey = char === '{'
+      pos++
+      consider(pos, false)
+    } else if (char === '}' || char === ']') {
+      frames.pop()
+      pos++
+      consider(pos, true)
+    } else if (char === ',') {
+      if (top.closer === ']') (top.key as number)++
+      else expectKey = true
+      pos++
+    } else if (char === ':' || char === ' ' || char === '\n' || char === '\t' || char === '\r') {
+      pos++
+    } else {
+      // Numbers, true, false and null
+      let end = pos + 1
+      while (end < text.length && !',}] \n\t\r'.includes(text[end])) end++
+      consider(end, true)
+      pos = end
+    }
+  }
+
+  return best ?? { text: MARKER, path: [] }
+}
@@ -1,27 +1,187 @@
+import type { HandleJsonError } from './errors'
+import type { SCHEMA_RULE } from './schema'
+
 export type DateSerializationMode = 'iso' | 'timestamp'
 
+// How stringify writes an object it has already written
+export type ReferenceMode = 'placeholder' | 'pointer' | 'duplicate'
+
+// 'iso' is a full timestamp like 2023-01-01T10:00:00Z, 'date' is date-only like 2023-01-01
+export type DateFormat = 'iso' | 'date'
+
+export type DateRules = {
+  // String formats to revive, built-in or custom. Defaults to ['iso']
+  formats?: Array<DateFormat | RegExp>
+  // Only revive values at these keys...
+  keys?: Array<string | RegExp>
+  // ...or at these paths, like 'orders[*].placedAt'
+  paths?: Array<string | RegExp>
+  // Revive numbers at matching keys or paths as timestamps in this unit
+  timestamps?: 'ms' | 's'
+  // Build the date value instead of a Date. Timestamps arrive in milliseconds
+  factory?: (value: string | number, key: string) => unknown
+}
+
+export type JsonSyntax = 'json' | 'jsonc' | 'json5'
+
+export type NumberMode = 'number' | 'bigint' | 'string' | 'auto'
+
+export type SizeEncoding = 'utf16' | 'utf8'
+
+export type DuplicateKeyMode = 'last' | 'first' | 'error'
+
+export type BigIntSerializationMode = 'suffix' | 'literal'
+
+// 'html' escapes < > & U+2028 U+2029 for <script> tags, 'ascii' escapes everything outside ASCII
+export type EscapeMode = 'none' | 'html' | 'ascii'
+
 export type ParseOptions<T = unknown> = {
   default?: T
   reviver?: (key: string, value: unknown) => unknown
-  dates?: boolean | DateSerializationMode
+  // Like reviver, plus the value's location. Takes precedence over reviver
+  pathReviver?: PathCallback
+  dates?: boolean | DateSerializationMode | DateRules
   schema?: Schema
+  // Schema options, as for tryValidate. With abortEarly: false the error lists every failing path
+  abortEarly?: boolean
+  maxErrors?: number
   maxSize?: number
+  sizeEncoding?: SizeEncoding
   maxDepth?: number
-  safeKeys?: boolean
+  maxKeys?: number
+  maxArrayLength?: number
+  maxStringLength?: number
+  maxTotalNodes?: number
+  safeKeys?: boolean | SafeKeysOptions
+  syntax?: JsonSyntax
+  repair?: boolean
+  numbers?: NumberMode
+  duplicateKeys?: DuplicateKeyMode
+  // Revive `{ $type, value }` wrappers with registered codecs: all of them, or only the listed names
+  types?: boolean | string[]
+  // Resolve `{ $ref: '#/a/b' }` written by stringify back into the same objects
+  references?: 'pointer'
+  // Read "NaN", "Infinity" and "-Infinity" strings back as numbers
+  nonFinite?: 'string'
+}
+
+export type PathContext = {
+  // JSON Pointer to the value, e.g. '/orders/0/placedAt'. '' for the root
+  pointer: string
+  path: Array<string | number>
+  // Object or array holding the value, undefined for the root
+  parent: unknown
+  depth: number
+}
+
+export type PathCallback = (key: string, value: unknown, context: PathContext) => unknown
+
+export type TypeCodec<T = unknown> = {
+  // Written as `$type`, so it must be unique
+  name: string
+  test: (value: unknown) => boolean
+  // Must return something JSON can represent; nested values are serialized too
+  serialize: (value: T) => unknown
+  revive: (value: unknown) => T
+}
+
+export type UnsafeKeyAction = 'strip' | 'error' | 'rename'
+
+export type SafeKeysOptions = {
+  // Keys to block, by name or predicate. Defaults to __proto__, constructor and prototype
+  deny?: string[] | ((key: string, path: string) => boolean)
+  // When set, only keys passing this predicate are kept
+  allow?: (key: string, path: string) => boolean
+  action?: UnsafeKeyAction
+  // New name for blocked keys when action is 'rename'. Defaults to prefixing '_'
+  rename?: (key: string) => string
+  // Build every parsed object with Object.create(null)
+  nullPrototype?: boolean
+  onUnsafeKey?: (path: string, key: string) => void
 }
 
 export type StringifyOptions = {
-  space?: number
+  // Spaces per level, or the indent itself, like '\t'
+  space?: number | string
   replacer?: (key: string, value: unknown) => unknown
+  // Like replacer, plus the value's location. Takes precedence over replacer
+  pathReplacer?: PathCallback
   dates?: boolean | DateSerializationMode
+  bigint?: BigIntSerializationMode
+  // Tag values of registered types as `{ $type, value }`: all of them, or only the listed names
+  types?: boolean | string[]
+  references?: ReferenceMode
+  // RFC 8785 output for hashing and signatures. Ignores space and escape
+  canonical?: boolean
+  escape?: EscapeMode
+  // NaN and Infinity: null like JSON.stringify (default), "NaN"/"Infinity" strings, or an INVALID_VALUE error
+  nonFinite?: 'null' | 'string' | 'error'
+  // undefined values: omitted from objects and null in arrays (default), always null, or an INVALID_VALUE error
+  undefinedValues?: 'omit' | 'null' | 'error'
+  // -0: written as 0 (default), kept as -0, or an INVALID_VALUE error
+  negativeZero?: 'zero' | 'preserve' | 'error'
+  // Replace sensitive values, like passwords or tokens, before they are written
+  redact?: RedactMatcher[] | RedactOptions
+  // Shorten output for logs, like util.inspect. Markers keep the result valid JSON
+  maxDepth?: number
+  maxArrayLength?: number
+  maxStringLength?: number
+  // At least 13: when nothing else fits, the output is the "[Truncated]" marker, even past the limit
+  maxOutputLength?: number
 }
 
 export type FormatOptions = {
-  space?: number
+  // Spaces per level, or the indent itself, like '\t'. Defaults to 2
+  space?: number | string
+  // Keep objects and arrays on one line when they fit in this many characters
+  maxLineWidth?: number
+  // Sort object keys, by code unit or with a comparator
+  sortKeys?: boolean | ((a: string, b: string) => number)
+  // Line ending. Defaults to '\n'
+  eol?: '\n' | '\r\n'
+  trailingNewline?: boolean
+  escape?: EscapeMode
+  redact?: RedactMatcher[] | RedactOptions
+  // Syntax of string input. 'jsonc' and 'json5' keep comments unless keys are sorted, redacted or packed into lines
+  syntax?: JsonSyntax
+  // Colour the output for a terminal or a web page
+  highlight?: HighlightMode | Omit<HighlightOptions, 'error'>
+}
+
+export type MinifyOptions = {
+  escape?: EscapeMode
 }
 
-export type SchemaType = 'string' | 'number' | 'boolean' | 'object' | 'array'
-export type SchemaValue = SchemaType | Schema | SchemaType[]
+// A key name (any case), a JSON Pointer like '/users/*/password', a key pattern or a predicate
+export type RedactMatcher = string | RegExp | ((key: string, value: unknown, context: PathContext) => boolean)
+
+export type RedactReplacement =
+  | string
+  // Keep the last `visible` characters (default 4), masking the rest with `char` (default '*')
+  | { type: 'mask', visible?: number, char?: string }
+  // 'sha256:' plus 16 hex digits of the salted SHA-256, so equal values can still be matched up
+  | { type: 'hash', salt?: string }
+  | ((value: unknown, context: PathContext) => unknown)
+
+export type RedactOptions = {
+  match: RedactMatcher[]
+  // Defaults to '[REDACTED]'
+  replacement?: RedactReplacement
+}
+
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'object' | 'array'
+export type SchemaValue = SchemaType | Schema | SchemaValue[] | SchemaConstruct
+
+export type SchemaLiteral = string | number | boolean | null
+
+export type SchemaRule =
+  | { kind: 'union', of: SchemaValue[] }
+  | { kind: 'literal', values: SchemaLiteral[] }
+
+// Built by union, literal, enumOf and nullable
+export type SchemaConstruct = {
+  readonly [SCHEMA_RULE]: SchemaRule
+}
 
 export type Schema = {
   [key: string]: SchemaValue
@@ -32,22 +192,93 @@ export type ValidationError = {
   expected: string
   actual: string
   message: string
+  // Why each alternative of a union did not match
+  alternatives?: ValidationError[]
 }
 
-export type ParseResult<T> = [T, null] | [null, Error]
+export type HandleJsonErrorCode =
+  | 'SYNTAX'
+  | 'DUPLICATE_KEY'
+  | 'MAX_SIZE'
+  | 'MAX_DEPTH'
+  | 'MAX_KEYS'
+  | 'MAX_ARRAY_LENGTH'
+  | 'MAX_STRING_LENGTH'
+  | 'MAX_TOTAL_NODES'
+  | 'SCHEMA'
+  | 'UNSAFE_KEY'
+  | 'STRINGIFY'
+  | 'CIRCULAR'
+  | 'INVALID_VALUE'
+  | 'UNKNOWN'
+
+export type ParseResult<T> = [T, null] | [null, HandleJsonError]
 
 export type ParseResultWithDetails<T> = {
   success: true
   data: T
+  // Paths of keys stripped or renamed by safeKeys
+  removedPaths?: string[]
 } | {
   success: false
   error: string
+  code: HandleJsonErrorCode
+  path?: string
+  // The structured error behind the message
+  cause: HandleJsonError
   position?: number
   context?: string
+  line?: number
+  column?: number
+  expected?: string
+  found?: string
+  duplicateKey?: DuplicateKeyDetails
+  // Every schema error, with abortEarly: false
+  errors?: ValidationError[]
+}
+
+export type DuplicateKeyDetails = {
+  key: string
+  path: string
+  position: number
+  firstPosition: number
+}
+
+export type StringifyDetails = {
+  // Paths of values shortened by the max* options
+  truncated: string[]
 }
 
-export type StringifyResult = [string, null] | [null, Error]
+export type StringifyResult = [string, null, StringifyDetails] | [null, HandleJsonError]
 export type ValidationResult = [true, null] | [false, ValidationError]
+export type ValidationResults = [true, null] | [false, ValidationError[]]
+
+export type ValidateOptions = {
+  // false to collect every error instead of stopping at the first
+  abortEarly?: boolean
+  // Most errors to collect with abortEarly: false. Defaults to 100
+  maxErrors?: number
+}
+
+export type RepairEdit = {
+  // Offset in the original text
+  position: number
+  removed: string
+  inserted: string
+  description: string
+}
+
+export type RepairResult = {
+  text: string
+  edits: RepairEdit[]
+}
+
+export type ExtractedJson<T = unknown> = {
+  value: T
+  // Offsets in the source text, end exclusive
+  start: number
+  end: number
+}
 
 export type StreamParseOptions = {
   chunkSize?: number
@@ -61,3 +292,56 @@ export type StreamParseResult<T> = {
   complete: boolean
 }
 
+
+// maxOutputLength needs the whole output, so streams do not support it
+export type StringifyStreamOptions = Omit<StringifyOptions, 'maxOutputLength'> & {
+  // Characters to collect before emitting a chunk. Defaults to 64 KiB
+  chunkSize?: number
+}
+
+export type JsonNodeType = 'object' | 'array' | 'property' | 'string' | 'number' | 'boolean' | 'null'
+
+export type JsonNode = {
+  type: JsonNodeType
+  // Where the node sits in the source text
+  offset: number
+  length: number
+  // Decoded value of strings, numbers, booleans and null
+  value?: unknown
+  // Properties of an object, items of an array, or the key and value of a property
+  children?: JsonNode[]
+  parent?: JsonNode
+  // Position of a property's ':'
+  colonOffset?: number
+}
+
+// Replace `length` characters at `offset` with `content`
+export type TextEdit = {
+  offset: number
+  length: number
+  content: string
+}
+
+export type EditOptions = {
+  // Defaults to 'jsonc'
+  syntax?: JsonSyntax
+  // Indent for inserted values. Defaults to the document's own
+  space?: number | string
+  // Defaults to '\r\n' if the document uses it, else '\n'
+  eol?: '\n' | '\r\n'
+}
+
+export type HighlightMode = 'ansi' | 'html'
+
+export type HighlightToken = 'key' | 'string' | 'number' | 'boolean' | 'null' | 'punctuation' | 'comment' | 'error'
+
+// SGR parameters like '1;36' in 'ansi' mode, class names in 'html' mode. An empty string leaves the token plain
+export type HighlightTheme = Partial<Record<HighlightToken, string>>
+
+export type HighlightOptions = {
+  // Defaults to 'ansi'
+  mode?: HighlightMode
+  theme?: HighlightTheme
+  // Position to mark as the error, or a result from parseWithDetails or tryParse
+  error?: number | { position?: number }
+}
@@ -1,4 +1,5 @@
-import type { Schema, SchemaType, SchemaValue, ValidationResult, ValidationError } from './types'
+import type { Schema, SchemaLiteral, SchemaRule, SchemaType, SchemaValue, ValidationResult, ValidationResults, ValidationError } from './types'
+import { getRule } from './schema'
 
 function getType(value: unknown): string {
   if (value === null) return 'null'
@@ -7,6 +8,7 @@ function getType(value: unknown): string {
 }
 
 function validateType(value: unknown, expectedType: SchemaType): boolean {
+  if (expectedType === 'integer') return Number.isInteger(value)
   const actualType = getType(value)
   if (expectedType === 'object' && actualType === 'null') return false
   if (expectedType === 'object') return actualType === 'object'
@@ -22,23 +24,83 @@ function createError(path: string, expected: string, actual: string): Validation
   }
 }
 
-function validateValue(value: unknown, schemaValue: SchemaValue, path: string): ValidationResult {
+// How a schema reads in error messages, like 'string | null'
+function describeSchema(schema: SchemaValue): string {
+  const rule = getRule(schema)
+  if (rule?.kind === 'union') return rule.of.map(describeSchema).join(' | ')
+  if (rule?.kind === 'literal') return rule.values.map(describeValue).join(' | ')
+  if (typeof schema === 'string') return schema.replace(/^\?/, '')
+  return Array.isArray(schema) ? 'array' : 'object'
+}
+
+// Literal values are shown as written, anything else by type
+function describeValue(value: unknown): string {
+  if (typeof value === 'string') return JSON.stringify(value)
+  if (typeof value === 'number' || typeof value === 'boolean' || value === null) return String(value)
+  return getType(value)
+}
+
+// Errors found so far, and how many to stop at
+type Collector = {
+  errors: ValidationError[]
+  max: number
+}
+
+const DEFAULT_MAX_ERRORS = 100
+
+// Returns false once the collector is full, so callers stop walking
+function report(collector: Collector, error: ValidationError): boolean {
+  collector.errors.push(error)
+  return collector.errors.length < collector.max
+}
+
+// Check a nested object, prefixing the paths of its errors
+function validateNested(value: unknown, schema: Schema, prefix: string, collector: Collector): boolean {
+  const nested: Collector = { errors: [], max: collector.max - collector.errors.length }
+  const more = validateObject(value, schema, nested)
+  for (const error of nested.errors) {
+    collector.errors.push({ ...error, path: `${prefix}.${error.path}` })
+  }
+  return more
+}
+
+function validateRule(value: unknown, rule: SchemaRule, schemaValue: SchemaValue, path: string, collector: Collector): boolean {
+  if (rule.kind === 'literal') {
+    if (rule.values.includes(value as SchemaLiteral)) return true
+    return report(collector, createError(path, describeSchema(schemaValue), describeValue(value)))
+  }
+
+  // Keep the first error from each alternative, to explain why none matched
+  const alternatives: ValidationError[] = []
+  for (const alternative of rule.of) {
+    const attempt: Collector = { errors: [], max: 1 }
+    validateValue(value, alternative, path, attempt)
+    if (attempt.errors.length === 0) return true
+    alternatives.push(attempt.errors[0])
+  }
+  return report(collector, { ...createError(path, describeSchema(schemaValue), getType(value)), alternatives })
+}
+
+function validateValue(value: unknown, schemaValue: SchemaValue, path: string, collector: Collector): boolean {
+  const rule = getRule(schemaValue)
+  if (rule) return validateRule(value, rule, schemaValue, path, collector)
+
   // Handle optional fields
   if (typeof schemaValue === 'string' && schemaValue.startsWith('?')) {
-    if (value === undefined) return [true, null]
+    if (value === undefined) return true
     const actualType = schemaValue.slice(1) as SchemaType
     if (!validateType(value, actualType)) {
-      return [false, createError(path, actualType, getType(value))]
+      return report(collector, createError(path, actualType, getType(value)))
     }
-    return [true, null]
+    return true
   }
 
   // Handle array item validation
   if (Array.isArray(schemaValue)) {
     if (!Array.isArray(value)) {
-      return [false, createError(path, 'array', getType(value))]
+      return report(collector, createError(path, 'array', getType(value)))
     }
-    if (schemaValue.length === 0) return [true, null]
+    if (schemaValue.length === 0) return true
     
     const itemSchema = schemaValue[0]
     for (let index = 0; index < value.length; index++) {
@@ -46,60 +108,59 @@ function validateValue(value: unknown, schemaValue: SchemaValue, path: string):
       const itemPath = `${path}[${index}]`
       
       if (typeof itemSchema === 'string') {
-        if (!validateType(item, itemSchema as SchemaType)) {
-          return [false, createError(itemPath, itemSchema, getType(item))]
-        }
-      } else if (Array.isArray(itemSchema)) {
-        const result = validateValue(item, itemSchema, itemPath)
-        if (!result[0]) return result
-      } else {
-        const result = validate(item, itemSchema)
-        if (!result[0]) {
-          const error = result[1]
-          return [false, { ...error, path: `${itemPath}.${error?.path ?? 'unknown'}` }]
+        if (!validateType(item, itemSchema as SchemaType) && !report(collector, createError(itemPath, itemSchema, getType(item)))) {
+          return false
         }
+      } else if (Array.isArray(itemSchema) || getRule(itemSchema)) {
+        if (!validateValue(item, itemSchema, itemPath, collector)) return false
+      } else if (!validateNested(item, itemSchema as Schema, itemPath, collector)) {
+        return false
       }
     }
-    return [true, null]
+    return true
   }
 
   // Handle simple type validation
   if (typeof schemaValue === 'string') {
     if (!validateType(value, schemaValue as SchemaType)) {
-      return [false, createError(path, schemaValue, getType(value))]
+      return report(collector, createError(path, schemaValue, getType(value)))
     }
-    return [true, null]
+    return true
   }
 
   // Handle nested object validation
   if (typeof value !== 'object' || value === null || Array.isArray(value)) {
-    return [false, createError(path, 'object', getType(value))]
-  }
-  
-  const result = validate(value, schemaValue)
-  if (!result[0]) {
-    const error = result[1]
-    return [false, { ...error, path: `${path}.${error?.path ?? 'unknown'}` }]
+    return report(collector, createError(path, 'object', getType(value)))
   }
-  return [true, null]
+  return validateNested(value, schemaValue, path, collector)
 }
 
-export function validate(value: unknown, schema: Schema): ValidationResult {
+function validateObject(value: unknown, schema: Schema, collector: Collector): boolean {
   if (typeof value !== 'object' || value === null || Array.isArray(value)) {
-    return [false, createError('root', 'object', getType(value))]
+    return report(collector, createError('root', 'object', getType(value)))
   }
 
   const obj = value as Record<string, unknown>
-  const keys = Object.keys(schema)
-
-  for (const key of keys) {
-    const schemaValue = schema[key]
-    const objValue = obj[key]
-    
-    const result = validateValue(objValue, schemaValue, key)
-    if (!result[0]) return result
+  for (const key of Object.keys(schema)) {
+    if (!validateValue(obj[key], schema[key], key, collector)) return false
   }
+  return true
+}
 
-  return [true, null]
+/**
+ * Check a value against a schema, stopping at the first error.
+ */
+export function validate(value: unknown, schema: Schema): ValidationResult {
+  const collector: Collector = { errors: [], max: 1 }
+  validateObject(value, schema, collector)
+  return collector.errors.length ? [false, collector.errors[0]] : [true, null]
 }
 
+/**
+ * Check a value against a schema and collect every error, up to `maxErrors` (default 100).
+ */
+export function validateAll(value: unknown, schema: Schema, maxErrors = DEFAULT_MAX_ERRORS): ValidationResults {
+  const collector: Collector = { errors: [], max: Math.max(1, maxErrors) }
+  validateObject(value, schema, collector)
+  return collector.errors.length ? [false, collector.errors] : [true, null]
+}
@@ -0,0 +1,148 @@
+import type { createSerializer } from './stringify'
+
+// What the writer hands its driver: an async iterator step to await, or undefined when a chunk is ready
+export type Step = Promise<IteratorResult<unknown>> | undefined
+export type Writer<T = void> = Generator<Step, T, IteratorResult<unknown> | undefined>
+
+type WriterSettings = Pick<ReturnType<typeof createSerializer>, 'replacer' | 'adopt' | 'literalMarker' | 'sortKeys'> & {
+  gap: string
+  // Characters to collect before handing a chunk to the driver
+  chunkSize: number
+  // Write async iterables as arrays, which needs an async driver
+  asyncIterables: boolean
+}
+
+function isAsyncIterable(value: object): value is AsyncIterable<unknown> {
+  return typeof (value as { [Symbol.asyncIterator]?: unknown })[Symbol.asyncIterator] === 'function'
+}
+
+/**
+ * Writes values the way JSON.stringify does, with the serializer's replacer, but walking them itself.
+ * This lets output come out in chunks, and object members in the order we choose.
+ */
+export function createWriter(settings: WriterSettings) {
+  const { replacer, adopt, literalMarker, sortKeys, gap, chunkSize, asyncIterables } = settings
+  let buffer = ''
+
+  // What JSON.stringify would write for holder[key]: toJSON first, then the replacer
+  function resolve(holder: Record<string, unknown>, key: string): unknown {
+    let current = holder[key]
+    if ((typeof current === 'object' && current !== null) || typeof current === 'bigint') {
+      const toJSON = (current as { toJSON?: unknown }).toJSON
+      if (typeof toJSON === 'function') current = toJSON.call(current, key)
+    }
+    current = replacer.call(holder, key, current)
+
+    if (current instanceof Number) return Number(current)
+    if (current instanceof String) return String(current)
+    if (current instanceof Boolean || current instanceof BigInt) return current.valueOf()
+    return current
+  }
+
+  // Returns false when there is nothing to write, like undefined or a function
+  function* write(holder: Record<string, unknown>, key: string, indent: string): Writer<boolean> {
+    const current = resolve(holder, key)
+
+    if (current === null) {
+      buffer += 'null'
+    } else if (typeof current === 'string') {
+      const digits = literalMarker && current.startsWith(literalMarker) ? current.slice(literalMarker.length) : undefined
+      buffer += digits !== undefined && /^-?\d+$/.test(digits) ? digits : JSON.stringify(current)
+    } else if (typeof current === 'number') {
+      buffer += Number.isFinite(current) ? JSON.stringify(current) : 'null'
+    } else if (typeof current === 'boolean') {
+      buffer += String(current)
+    } else if (typeof current === 'bigint') {
+      throw new TypeError('Do not know how to serialize a BigInt')
+    } else if (typeof current === 'object') {
+      if (Array.isArray(current)) yield* writeArray(current, indent)
+      else if (asyncIterables && isAsyncIterable(current)) yield* writeAsyncIterable(current, indent)
+      else yield* writeObject(current as Record<string, unknown>, indent)
+    } else {
+      return false
+    }
+
+    if (buffer.length >= chunkSize) yield undefined
+    return true
+  }
+
+  function* writeArray(array: unknown[], indent: string): Writer {
+    if (array.length === 0) {
+      buffer += '[]'
+      return
+    }
+    const inner = indent + gap
+    buffer += '['
+    for (let i = 0; i < array.length; i++) {
+      buffer += (i > 0 ? ',' : '') + (gap ? '\n' + inner : '')
+      if (!(yield* write(array as unknown as Record<string, unknown>, String(i), inner))) buffer += 'null'
+    }
+    buffer += (gap ? '\n' + indent : '') + ']'
+  }
+
+  function* writeObject(object: Record<string, unknown>, indent: string): Writer {
+    const inner = indent + gap
+    // Sorting the key list, not the object, since objects always list integer-like keys first
+    const keys = sortKeys ? Object.keys(object).sort() : Object.keys(object)
+    let count = 0
+    buffer += '{'
+    for (const key of keys) {
+      // Skipped values return before anything is flushed, so the key can be taken back
+      const mark = buffer.length
+      buffer += (count > 0 ? ',' : '') + (gap ? '\n' + inner : '') + JSON.stringify(key) + (gap ? ': ' : ':')
+      if (yield* write(object, key, inner)) count++
+      else buffer = buffer.slice(0, mark)
+    }
+    buffer += (count > 0 && gap ? '\n' + indent : '') + '}'
+  }
+
+  function* writeAsyncIterable(iterable: AsyncIterable<unknown>, indent: string): Writer {
+    const iterator = iterable[Symbol.asyncIterator]()
+    // Holds only the current item, standing in for the iterable so paths and cycles still work
+    const holder: unknown[] = []
+    adopt(holder, iterable)
+    const inner = indent + gap
+    let index = 0
+    let done = false
+    buffer += '['
+    try {
+      while (true) {
+        const result = yield iterator.next()
+        if (!result || result.done) break
+        holder[index] = result.value
+        buffer += (index > 0 ? ',' : '') + (gap ? '\n' + inner : '')
+        if (!(yield* write(holder as unknown as Record<string, unknown>, String(index), inner))) buffer += 'null'
+        delete holder[index]
+        index++
+      }
+      done = true
+    } finally {
+      // Stopped early, by an error or the consumer. Its own failure to close must not surface as an unhandled rejection
+      if (!done) Promise.resolve().then(() => iterator.return?.()).catch(() => {})
+    }
+    buffer += (index > 0 && gap ? '\n' + indent : '') + ']'
+  }
+
+  return {
+    // Steps through writing `value` as the root
+    write: (value: unknown): Writer<boolean> => write({ '': value }, '', ''),
+    // Hand over what has been written so far
+    take(): string {
+      const chunk = buffer
+      buffer = ''
+      return chunk
+    }
+  }
+}
+
+/**
+ * Write a value in one go. Returns undefined where JSON.stringify would, like for a function.
+ */
+export function writeSync(value: unknown, settings: Omit<WriterSettings, 'chunkSize' | 'asyncIterables'>): string | undefined {
+  const writer = createWriter({ ...settings, chunkSize: Infinity, asyncIterables: false })
+  const steps = writer.write(value)
+  // Without async iterables every step is a chunk boundary, and there are none below Infinity
+  let step = steps.next()
+  while (!step.done) step = steps.next()
+  return step.value ? writer.take() : undefined
+}
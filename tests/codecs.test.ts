@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest'
+import { parse, tryParse, stringify, registerType } from '../src/index'
+import { encodeType, decodeType } from '../src/codecs'
+
+function roundTrip<T>(value: T): T {
+  return parse(stringify(value, { types: true }) ?? '', { types: true }) as T
+}
+
+class Point {
+  constructor(public x: number, public y: number) {}
+}
+
+registerType<Point>({
+  name: 'Point',
+  test: value => value instanceof Point,
+  serialize: point => [point.x, point.y],
+  revive: value => new Point(...(value as [number, number]))
+})
+
+describe('type codecs', () => {
+  it('tags Map and Set values', () => {
+    const json = stringify({ m: new Map([['a', 1]]), s: new Set([1, 2]) }, { types: true })
+    expect(json).toBe('{"m":{"$type":"Map","value":[["a",1]]},"s":{"$type":"Set","value":[1,2]}}')
+  })
+
+  it('round-trips nested built-in types', () => {
+    const value = {
+      map: new Map<unknown, unknown>([['set', new Set([1n, 2n])], [{ key: true }, /a+b/gi]]),
+      url: new URL('https://example.com/path?q=1'),
+      bytes: new Uint8Array([1, 2, 255]),
+      floats: new Float64Array([1.5, -2]),
+      longs: new BigUint64Array([18446744073709551615n]),
+      big: 12345678901234567890n
+    }
+    const result = roundTrip(value)
+    expect(result.map).toEqual(value.map)
+    expect(result.url).toBeInstanceOf(URL)
+    expect(result.url.href).toBe('https://example.com/path?q=1')
+    expect(result.bytes).toEqual(value.bytes)
+    expect(result.floats).toEqual(value.floats)
+    expect(result.longs).toEqual(value.longs)
+    expect(result.big).toBe(12345678901234567890n)
+  })
+
+  it('round-trips errors with their type and cause', () => {
+    const result = roundTrip(new RangeError('too big', { cause: 'limit' }))
+    expect(result).toBeInstanceOf(RangeError)
+    expect(result.message).toBe('too big')
+    expect(result.cause).toBe('limit')
+  })
+
+  it('keeps custom error names', () => {
+    const error = new Error('nope')
+    error.name = 'NotFoundError'
+    const result = roundTrip(error)
+    expect(result).toBeInstanceOf(Error)
+    expect(result.name).toBe('NotFoundError')
+  })
+
+  it('round-trips registered custom classes', () => {
+    const result = roundTrip({ at: new Point(1, 2) })
+    expect(result.at).toBeInstanceOf(Point)
+    expect(result.at).toEqual(new Point(1, 2))
+  })
+
+  it('lets later registrations override earlier ones', () => {
+    class Tags extends Set<string> {}
+    registerType<Tags>({
+      name: 'Tags',
+      test: value => value instanceof Tags,
+      serialize: tags => [...tags].join(','),
+      revive: value => new Tags((value as string).split(','))
+    })
+    expect(encodeType(new Tags(['a', 'b']), true)).toEqual({ $type: 'Tags', value: 'a,b' })
+    expect(encodeType(new Set(['a']), true)).toEqual({ $type: 'Set', value: ['a'] })
+  })
+
+  it('only uses the listed types', () => {
+    const json = stringify({ m: new Map([[1, 2]]), s: new Set([1]) }, { types: ['Set'] })
+    expect(json).toBe('{"m":{},"s":{"$type":"Set","value":[1]}}')
+    expect(parse('{"$type":"Map","value":[[1,2]]}', { types: ['Set'] })).toEqual({ $type: 'Map', value: [[1, 2]] })
+  })
+
+  it('leaves tags alone unless enabled', () => {
+    const json = '{"$type":"Set","value":[1]}'
+    expect(parse(json)).toEqual({ $type: 'Set', value: [1] })
+    expect(parse(json, { types: true })).toEqual(new Set([1]))
+  })
+
+  it('ignores unknown types and objects with extra keys', () => {
+    expect(decodeType({ $type: 'Nope', value: 1 }, true)).toEqual({ $type: 'Nope', value: 1 })
+    expect(decodeType({ $type: 'Set', value: [1], extra: true }, true)).toEqual({ $type: 'Set', value: [1], extra: true })
+  })
+
+  it('marks circular references inside tagged values', () => {
+    const map = new Map<string, unknown>()
+    map.set('self', map)
+    expect(stringify(map, { types: true })).toBe('{"$type":"Map","value":[["self","[Circular]"]]}')
+  })
+
+  it('works with timestamp dates', () => {
+    const date = new Date(0)
+    expect(stringify({ m: new Map([['at', date]]) }, { types: true, dates: 'timestamp' }))
+      .toBe('{"m":{"$type":"Map","value":[["at",0]]}}')
+  })
+
+  it('passes revived values to reviver and safeKeys', () => {
+    const json = stringify({ m: new Map([['a', 1]]) }, { types: true }) ?? ''
+    const result = parse<{ m: unknown }>(json, {
+      types: true,
+      safeKeys: { nullPrototype: true },
+      reviver: (key, value) => key === 'm' && value instanceof Map ? value.size : value
+    })
+    expect(result?.m).toBe(1)
+    expect(parse<{ m: unknown }>(json, { types: true, safeKeys: { nullPrototype: true } })?.m).toBeInstanceOf(Map)
+  })
+
+  it('applies safeKeys inside revived values', () => {
+    const set = '{"s":{"$type":"Set","value":[{"__proto__":{"x":1}}]}}'
+    const error = '{"e":{"$type":"Error","value":{"name":"Error","message":"m","cause":{"constructor":1}}}}'
+
+    expect(tryParse(set, { types: true, safeKeys: { action: 'error' } })[1]?.code).toBe('UNSAFE_KEY')
+    expect(tryParse(error, { types: true, safeKeys: { action: 'error' } })[1]?.code).toBe('UNSAFE_KEY')
+
+    const removed = parse<{ s: Set<object> }>(set, { types: true, safeKeys: true })
+    expect([...removed!.s]).toEqual([{}])
+    expect(Object.keys([...removed!.s][0])).toEqual([])
+    expect(parse<{ e: Error }>(error, { types: true, safeKeys: true })?.e.cause).toEqual({})
+
+    const renamed = parse<{ s: Set<object> }>(set, { types: true, safeKeys: { action: 'rename' } })
+    expect([...renamed!.s]).toEqual([{ ___proto__: { x: 1 } }])
+    expect(parse<{ e: Error }>(error, { types: true, safeKeys: { action: 'rename' } })?.e.cause).toEqual({ _constructor: 1 })
+  })
+
+  it('rejects payloads of the wrong shape instead of building from them', () => {
+    const hostile: Array<[string, unknown]> = [
+      ['Float64Array', 1000000],
+      ['Float64Array', { length: 1000000 }],
+      ['Uint8Array', [1, 'x']],
+      ['BigInt64Array', [1]],
+      ['BigInt64Array', ['1e9']],
+      ['Map', 5],
+      ['Map', [[1, 2, 3]]],
+      ['Set', 'abc'],
+      ['BigInt', 12],
+      ['BigInt', '0x10'],
+      ['RegExp', { source: 1, flags: '' }],
+      ['RegExp', { source: 'a', flags: 7 }],
+      ['RegExp', { source: '(', flags: '' }],
+      ['URL', 'not a url'],
+      ['URL', ['https://example.com']],
+      ['Error', 'boom'],
+      ['Error', { name: 'Error', message: 5 }]
+    ]
+    for (const [type, value] of hostile) {
+      const [result, error] = tryParse(JSON.stringify({ a: { $type: type, value } }), { types: true })
+      expect(result).toBeNull()
+      expect(error).toMatchObject({ code: 'INVALID_VALUE', message: `Invalid ${type} value` })
+    }
+  })
+
+  it('does not allocate from a length in the input', () => {
+    const json = '{"a":{"$type":"Float64Array","value":1000000000}}'
+    expect(json.length).toBeLessThan(60)
+    expect(parse(json, { types: true })).toBeNull()
+  })
+})
@@ -1,5 +1,15 @@
 import { describe, it, expect } from 'vitest'
-import { extractPosition, getContext, formatError } from '../src/errors'
+import {
+  extractPosition,
+  getContext,
+  formatError,
+  getLocation,
+  JsonSyntaxError,
+  LimitExceededError,
+  UnsafeKeyError,
+  HandleJsonError,
+  toHandleJsonError
+} from '../src/errors'
 
 describe('extractPosition', () => {
   it('extracts position from JSON.parse errors', () => {
@@ -12,9 +22,21 @@ describe('extractPosition', () => {
     expect(extractPosition(error)).toBe(123)
   })
 
-  it('falls back to line number estimation', () => {
-    const error = new Error('Parse error at line 5')
-    expect(extractPosition(error)).toBe(320)
+  it('resolves line and column messages against the source', () => {
+    const json = '{\n  "a": 1,\n  oops\n}'
+    const error = new Error('JSON.parse: unexpected character at line 3 column 3 of the JSON data')
+    expect(extractPosition(error, json)).toBe(json.indexOf('oops'))
+  })
+
+  it('does not guess from a line number without the source', () => {
+    const error = new Error('Parse error at line 5 column 2')
+    expect(extractPosition(error)).toBeUndefined()
+    expect(extractPosition(new Error('Parse error at line 5'))).toBeUndefined()
+  })
+
+  it('uses the exact position of scanner errors', () => {
+    const error = new JsonSyntaxError('[1,]', 3, 'value', "']'")
+    expect(extractPosition(error)).toBe(3)
   })
 
   it('returns undefined when no position found', () => {
@@ -90,3 +112,59 @@ describe('formatError', () => {
     expect(formatted).toContain('position 0')
   })
 })
+
+describe('getLocation', () => {
+  it('returns 1-based line and column', () => {
+    expect(getLocation('{"a":1}', 0)).toEqual({ line: 1, column: 1 })
+    expect(getLocation('{"a":1}', 5)).toEqual({ line: 1, column: 6 })
+  })
+
+  it('counts LF, CRLF and CR line breaks', () => {
+    expect(getLocation('{\n"a"', 2)).toEqual({ line: 2, column: 1 })
+    expect(getLocation('{\r\n"a"', 3)).toEqual({ line: 2, column: 1 })
+    expect(getLocation('{\r\r"a"', 3)).toEqual({ line: 3, column: 1 })
+  })
+})
+
+describe('JsonSyntaxError', () => {
+  it('carries location and token details', () => {
+    const error = new JsonSyntaxError('{\n  "a" 1\n}', 8, "':'", "'1'")
+    expect(error).toBeInstanceOf(SyntaxError)
+    expect(error.line).toBe(2)
+    expect(error.column).toBe(7)
+    expect(error.expected).toBe("':'")
+    expect(error.found).toBe("'1'")
+    expect(error.message).toBe("Unexpected '1' at line 2, column 7, expected ':'")
+  })
+})
+
+describe('toHandleJsonError', () => {
+  it('maps built-in errors to codes', () => {
+    const syntax = new JsonSyntaxError('[1,]', 3, 'value', "']'")
+    expect(toHandleJsonError(syntax)).toMatchObject({ code: 'SYNTAX', position: 3, cause: syntax })
+
+    const limit = new LimitExceededError('Maximum depth 1 exceeded', 'maxDepth', 1, 2, 'a')
+    expect(toHandleJsonError(limit)).toMatchObject({ code: 'MAX_DEPTH', position: 2, path: 'a', cause: limit })
+
+    const unsafe = new UnsafeKeyError('__proto__', '__proto__')
+    expect(toHandleJsonError(unsafe)).toMatchObject({ code: 'UNSAFE_KEY', path: '__proto__', cause: unsafe })
+  })
+
+  it('keeps the original message', () => {
+    const error = toHandleJsonError(new SyntaxError('Unexpected token } in JSON at position 5'))
+    expect(error.message).toBe('Unexpected token } in JSON at position 5')
+    expect(error.position).toBe(5)
+  })
+
+  it('uses the fallback code for other errors', () => {
+    expect(toHandleJsonError(new TypeError('x')).code).toBe('UNKNOWN')
+    expect(toHandleJsonError('oops', 'STRINGIFY')).toMatchObject({ code: 'STRINGIFY', message: 'oops' })
+  })
+
+  it('returns HandleJsonError unchanged', () => {
+    const error = new HandleJsonError('SCHEMA', 'bad')
+    expect(toHandleJsonError(error)).toBe(error)
+    expect(error).toBeInstanceOf(Error)
+    expect(error.name).toBe('HandleJsonError')
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { stringify, tryStringify, format, minify, parse, stringifyChunks } from '../src/index'
+import { escapeJson } from '../src/escape'
+
+describe('stringify escape option', () => {
+  const payload = { html: '</script><b>&amp;</b>', lines: 'a\u2028b\u2029c' }
+
+  it('leaves characters alone by default', () => {
+    expect(stringify(payload)).toBe(JSON.stringify(payload))
+    expect(stringify(payload, { escape: 'none' })).toBe(JSON.stringify(payload))
+  })
+
+  it('escapes characters that can break out of a script tag', () => {
+    const json = stringify(payload, { escape: 'html' })!
+    expect(json).toBe(
+      '{"html":"\\u003c/script\\u003e\\u003cb\\u003e\\u0026amp;\\u003c/b\\u003e","lines":"a\\u2028b\\u2029c"}'
+    )
+    expect(json).not.toMatch(/[<>&\u2028\u2029]/)
+    expect(parse(json)).toEqual(payload)
+  })
+
+  it('escapes keys too', () => {
+    expect(stringify({ '<k>': 1 }, { escape: 'html' })).toBe('{"\\u003ck\\u003e":1}')
+  })
+
+  it('writes non-ASCII characters as escapes', () => {
+    const value = { text: 'café 😀 日本', 'ключ': 'ü' }
+    const json = stringify(value, { escape: 'ascii' })!
+    expect(json).toBe('{"text":"caf\\u00e9 \\ud83d\\ude00 \\u65e5\\u672c","\\u043a\\u043b\\u044e\\u0447":"\\u00fc"}')
+    expect(json).toMatch(/^[\x00-\x7f]*$/)
+    expect(parse(json)).toEqual(value)
+  })
+
+  it('keeps html characters in ascii mode', () => {
+    expect(stringify('<a>\u2028', { escape: 'ascii' })).toBe('"<a>\\u2028"')
+  })
+
+  it('works with indentation and bigint literals', () => {
+    expect(stringify({ n: 1n, s: '<' }, { escape: 'html', space: 2, bigint: 'literal' }))
+      .toBe('{\n  "n": 1,\n  "s": "\\u003c"\n}')
+  })
+
+  it('counts escapes towards maxOutputLength', () => {
+    const [json] = tryStringify({ a: ['<<<<', '<<<<'] }, { escape: 'html', maxOutputLength: 50 })
+    expect(json!.length).toBeLessThanOrEqual(50)
+    expect(parse(json!)).toEqual({ a: ['<<<<', '[Truncated]'] })
+  })
+
+  it('is ignored by canonical output', () => {
+    expect(stringify({ a: 'é' }, { canonical: true, escape: 'ascii' })).toBe('{"a":"é"}')
+  })
+
+  it('escapes streamed chunks', async () => {
+    let json = ''
+    for await (const chunk of stringifyChunks({ a: ['<😀>'] }, { escape: 'ascii', chunkSize: 1 })) json += chunk
+    expect(json).toBe('{"a":["<\\ud83d\\ude00>"]}')
+  })
+})
+
+describe('format and minify escape option', () => {
+  it('escapes formatted output', () => {
+    expect(format({ a: '</script>' }, { escape: 'html' })).toBe('{\n  "a": "\\u003c/script\\u003e"\n}')
+    expect(format('{"a":"é"}', { escape: 'ascii', maxLineWidth: 80 })).toBe('{"a": "\\u00e9"}')
+  })
+
+  it('escapes minified output', () => {
+    expect(minify('{ "a": "<b>" }', { escape: 'html' })).toBe('{"a":"\\u003cb\\u003e"}')
+    expect(minify({ a: 'ñ' }, { escape: 'ascii' })).toBe('{"a":"\\u00f1"}')
+  })
+})
+
+describe('escapeJson', () => {
+  it('keeps escaped lone surrogates as they are', () => {
+    expect(escapeJson(JSON.stringify('\ud800'), 'ascii')).toBe('"\\ud800"')
+  })
+})
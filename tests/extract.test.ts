@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { extractJson } from '../src/index'
+
+describe('extractJson', () => {
+  it('extracts JSON from markdown code fences', () => {
+    const text = 'Here you go:\n```json\n{"name": "John", "age": 30}\n```\nAnything else?'
+    expect(extractJson(text)).toEqual([
+      { value: { name: 'John', age: 30 }, start: 21, end: 48 }
+    ])
+  })
+
+  it('extracts the JSON suffix of log lines', () => {
+    const text = '2024-01-15 INFO request done {"status": 200, "ms": 12}'
+    const [found] = extractJson(text)
+    expect(found.value).toEqual({ status: 200, ms: 12 })
+    expect(text.slice(found.start, found.end)).toBe('{"status": 200, "ms": 12}')
+  })
+
+  it('extracts script blocks from HTML', () => {
+    const html = '<script type="application/json">{"user": {"id": 1}}</script>'
+    expect(extractJson(html).map(r => r.value)).toEqual([{ user: { id: 1 } }])
+  })
+
+  it('finds every value in order', () => {
+    const text = 'first [1, 2] then {"a": true} and [] last'
+    expect(extractJson(text).map(r => r.value)).toEqual([[1, 2], { a: true }, []])
+  })
+
+  it('ignores brackets inside strings', () => {
+    expect(extractJson('{"a": "} ] {"}').map(r => r.value)).toEqual([{ a: '} ] {' }])
+  })
+
+  it('skips invalid candidates and keeps looking inside them', () => {
+    const text = '{not json, but [1, 2]} {"b": 2'
+    expect(extractJson(text)).toEqual([{ value: [1, 2], start: 15, end: 21 }])
+  })
+
+  it('keeps looking after a quote that never closes', () => {
+    expect(extractJson('{not json "quote} [1, 2]')).toEqual([{ value: [1, 2], start: 18, end: 24 }])
+  })
+
+  it('stays fast on brackets that never close', () => {
+    const text = '['.repeat(100_000) + ' {"a": 1} ' + '{"'.repeat(100_000)
+    const started = performance.now()
+    expect(extractJson(text)).toEqual([{ value: { a: 1 }, start: 100_001, end: 100_009 }])
+    expect(extractJson(text, { syntax: 'json5' })).toHaveLength(1)
+    // A rescan from every opener would take minutes
+    expect(performance.now() - started).toBeLessThan(1000)
+  })
+
+  it('stays fast on nested brackets that close but do not parse', () => {
+    const text = '['.repeat(20_000) + 'x' + ']'.repeat(20_000) + ' ' + '{"a": '.repeat(10_000) + '-' + '}'.repeat(10_000)
+    const started = performance.now()
+    expect(extractJson(text)).toEqual([])
+    expect(extractJson(text, { syntax: 'json5' })).toEqual([])
+    // Parsing again at every level would take seconds
+    expect(performance.now() - started).toBeLessThan(1000)
+  })
+
+  it('still finds values nested before or after an error', () => {
+    expect(extractJson('[x, [1], {"a": [2]}] {"b" [3]}').map(r => r.value)).toEqual([[1], { a: [2] }, [3]])
+  })
+
+  it('only takes quotes for strings where a key or value can start', () => {
+    expect(extractJson('[see "quote] and {"a":1}')).toEqual([{ value: { a: 1 }, start: 17, end: 24 }])
+    expect(extractJson('Set size to [5" wide]: {"w":5}').map(r => r.value)).toEqual([{ w: 5 }])
+    expect(extractJson('[1, "]", {"a" : "}"}]').map(r => r.value)).toEqual([[1, ']', { a: '}' }]])
+  })
+
+  it('returns an empty array when nothing is found', () => {
+    expect(extractJson('no json here')).toEqual([])
+    expect(extractJson('')).toEqual([])
+  })
+
+  it('applies schema to each value', () => {
+    const text = '{"id": 1} {"id": "two"} {"id": 3}'
+    expect(extractJson(text, { schema: { id: 'number' } }).map(r => r.value)).toEqual([{ id: 1 }, { id: 3 }])
+  })
+
+  it('applies safeKeys and limits to each value', () => {
+    const text = '{"__proto__": {"x": 1}, "a": 1} [1, 2, 3] [4]'
+    expect(extractJson(text, { safeKeys: { action: 'strip' }, maxArrayLength: 2 }).map(r => r.value))
+      .toEqual([{ a: 1 }, [4]])
+  })
+
+  it('supports other syntaxes', () => {
+    const text = "config: { port: 8080, // dev\n host: 'a}b', }"
+    expect(extractJson(text, { syntax: 'json5' }).map(r => r.value)).toEqual([{ port: 8080, host: 'a}b' }])
+  })
+
+  it('repairs candidates when enabled', () => {
+    const text = 'result: {"a": [1, 2,], "b": True}'
+    expect(extractJson(text)).toEqual([])
+    expect(extractJson(text, { repair: true }).map(r => r.value)).toEqual([{ a: [1, 2], b: true }])
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { highlight, format, parseWithDetails, tryParse } from '../src/index'
+
+const ESC = '\x1b'
+
+describe('highlight', () => {
+  it('colours each kind of token for a terminal', () => {
+    expect(highlight('{"a": ["x", -1.5e3, true, null]}')).toBe(
+      `{${ESC}[34m"a"${ESC}[0m: [${ESC}[32m"x"${ESC}[0m, ${ESC}[33m-1.5e3${ESC}[0m, ` +
+      `${ESC}[35mtrue${ESC}[0m, ${ESC}[90mnull${ESC}[0m]}`
+    )
+  })
+
+  it('wraps tokens in spans and escapes html', () => {
+    expect(highlight('{"<a>": "&\'"}', 'html')).toBe(
+      '<span class="json-punctuation">{</span><span class="json-key">&quot;&lt;a&gt;&quot;</span>' +
+      '<span class="json-punctuation">:</span> <span class="json-string">&quot;&amp;&#39;&quot;</span>' +
+      '<span class="json-punctuation">}</span>'
+    )
+  })
+
+  it('takes a theme', () => {
+    expect(highlight('{"a": 1}', { theme: { key: '1;36', number: '' } })).toBe(`{${ESC}[1;36m"a"${ESC}[0m: 1}`)
+    expect(highlight('[1]', { mode: 'html', theme: { number: 'n "x"', punctuation: '' } }))
+      .toBe('[<span class="n &quot;x&quot;">1</span>]')
+  })
+
+  it('handles comments and json5', () => {
+    expect(highlight("{key: 'v', // note\n n: NaN}", 'html')).toBe(
+      '<span class="json-punctuation">{</span><span class="json-key">key</span><span class="json-punctuation">:</span> ' +
+      '<span class="json-string">&#39;v&#39;</span><span class="json-punctuation">,</span> ' +
+      '<span class="json-comment">// note</span>\n <span class="json-key">n</span><span class="json-punctuation">:</span> ' +
+      '<span class="json-number">NaN</span><span class="json-punctuation">}</span>'
+    )
+  })
+
+  it('marks the error that parseWithDetails reports', () => {
+    const text = '{\n  "a": 1,\n  "b" 2\n}'
+    const result = parseWithDetails(text)
+    expect(result.success).toBe(false)
+    expect(highlight(text, { error: result.success ? undefined : result, theme: { key: '', number: '' } }))
+      .toBe(`{\n  "a": 1,\n  ${ESC}[32m"b"${ESC}[0m ${ESC}[41;97m2${ESC}[0m\n}`)
+  })
+
+  it('marks errors at whitespace and at the end of input', () => {
+    const [, error] = tryParse('{"a": ')
+    expect(highlight('{"a": ', { mode: 'html', error: error!, theme: { key: '', punctuation: '' } }))
+      .toBe('{&quot;a&quot;: <span class="json-error"> </span>')
+    expect(highlight('[1,  ]', { mode: 'html', error: 4, theme: { number: '', punctuation: '' } }))
+      .toBe('[1, <span class="json-error"> </span>]')
+  })
+
+  it('keeps unterminated strings on their line', () => {
+    expect(highlight('["a\n1]', { theme: { punctuation: '' } })).toBe(`[${ESC}[32m"a${ESC}[0m\n${ESC}[33m1${ESC}[0m]`)
+  })
+})
+
+describe('format highlight option', () => {
+  it('highlights formatted output', () => {
+    expect(format({ a: 1 }, { highlight: 'ansi', trailingNewline: true }))
+      .toBe(`{\n  ${ESC}[34m"a"${ESC}[0m: ${ESC}[33m1${ESC}[0m\n}\n`)
+    expect(format('[true]', { highlight: { mode: 'html', theme: { punctuation: '' } }, space: 0 }))
+      .toBe('[<span class="json-boolean">true</span>]')
+  })
+
+  it('highlights comments kept from jsonc', () => {
+    expect(format('{"a":1 // one\n}', { syntax: 'jsonc', highlight: { theme: { key: '', number: '' } } }))
+      .toBe(`{\n  "a": 1 ${ESC}[2m// one${ESC}[0m\n}`)
+  })
+})
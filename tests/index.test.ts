@@ -7,7 +7,10 @@ import {
   isValid, 
   format, 
   minify,
-  parseWithDetails
+  parseWithDetails,
+  repair,
+  canonicalize,
+  HandleJsonError
 } from '../src/index'
 
 describe('parse', () => {
@@ -79,6 +82,364 @@ describe('parse', () => {
   })
 })
 
+describe('parse with syntax option', () => {
+  const config = `{
+  // Server settings
+  "port": 8080,
+  /* multi
+     line */
+  "hosts": ["a", "b",],
+}`
+
+  it('parses JSONC when syntax is jsonc', () => {
+    expect(parse(config, { syntax: 'jsonc' })).toEqual({ port: 8080, hosts: ['a', 'b'] })
+    expect(parse(config)).toBe(null)
+  })
+
+  it('parses JSON5 when syntax is json5', () => {
+    expect(parse("{name: 'John', tags: ['a',],}", { syntax: 'json5' })).toEqual({ name: 'John', tags: ['a'] })
+  })
+
+  it('works with security options and schema', () => {
+    const schema = { port: 'number', hosts: ['string'] }
+    expect(parse(config, { syntax: 'jsonc', schema, maxDepth: 5, maxSize: 1000 })).toEqual({ port: 8080, hosts: ['a', 'b'] })
+    expect(parse(config, { syntax: 'jsonc', maxSize: 10 })).toBe(null)
+    expect(parse('{a: {b: {c: 1}}}', { syntax: 'json5', maxDepth: 1 })).toBe(null)
+  })
+
+  it('applies safeKeys', () => {
+    const result = parse("{__proto__: {isAdmin: true}, name: 'John'}", { syntax: 'json5', safeKeys: true })
+    expect(result).toEqual({ name: 'John' })
+    expect(result).not.toHaveProperty('__proto__')
+  })
+
+  it('applies reviver and dates', () => {
+    const result = parse("{createdAt: '2023-01-01T10:00:00Z', n: 1}", {
+      syntax: 'json5',
+      dates: true,
+      reviver: (key, value) => key === 'n' ? 2 : value
+    })
+    expect((result as { createdAt: Date }).createdAt).toBeInstanceOf(Date)
+    expect((result as { n: number }).n).toBe(2)
+  })
+
+  it('is honored by tryParse', () => {
+    const [result, error] = tryParse('[1, 2,] // done', undefined, undefined, 'jsonc')
+    expect(result).toEqual([1, 2])
+    expect(error).toBe(null)
+  })
+
+  it('is honored by parseWithDetails', () => {
+    const result = parseWithDetails('{\n  // note\n  a: 1\n}', { syntax: 'jsonc' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.line).toBe(3)
+      expect(result.column).toBe(3)
+      expect(result.expected).toBe('string')
+    }
+  })
+
+  it('is honored by isValid', () => {
+    expect(isValid('{a: 1}', { syntax: 'json5' })).toBe(true)
+    expect(isValid('{a: 1}', { syntax: 'jsonc' })).toBe(false)
+    expect(isValid('{"a": 1, // x\n}', { syntax: 'jsonc' })).toBe(true)
+  })
+})
+
+describe('parse with numbers option', () => {
+  const payload = '{"id":12345678901234567890,"price":0.1000000000000000000001,"count":3}'
+
+  it('rounds unsafe integers by default', () => {
+    expect((parse(payload) as { id: number }).id).toBe(12345678901234567000)
+  })
+
+  it('keeps unsafe integers and decimals in auto mode', () => {
+    expect(parse(payload, { numbers: 'auto' })).toEqual({
+      id: 12345678901234567890n,
+      price: '0.1000000000000000000001',
+      count: 3
+    })
+  })
+
+  it('returns every integer as bigint in bigint mode', () => {
+    expect(parse('[1,2.5]', { numbers: 'bigint' })).toEqual([1n, 2.5])
+  })
+
+  it('returns lossy numbers as strings in string mode', () => {
+    expect(parse(payload, { numbers: 'string' })).toEqual({
+      id: '12345678901234567890',
+      price: '0.1000000000000000000001',
+      count: 3
+    })
+  })
+
+  it('works with other syntaxes and options', () => {
+    const result = parse("{id: 12345678901234567890, // comment\n}", {
+      syntax: 'json5',
+      numbers: 'auto',
+      maxDepth: 3,
+      safeKeys: true
+    })
+    expect(result).toEqual({ id: 12345678901234567890n })
+  })
+
+  it('round-trips bigints with stringify bigint literal mode', () => {
+    const value = { id: 12345678901234567890n, nested: [-42n] }
+    const json = stringify(value, { bigint: 'literal' })
+    expect(json).toBe('{"id":12345678901234567890,"nested":[-42]}')
+    expect(parse(json!, { numbers: 'bigint' })).toEqual(value)
+  })
+})
+
+describe('parse with duplicateKeys option', () => {
+  const json = '{"role":"user","name":"John","role":"admin"}'
+
+  it('keeps the last value by default', () => {
+    expect(parse(json)).toEqual({ role: 'admin', name: 'John' })
+  })
+
+  it('keeps the first value in first mode', () => {
+    expect(parse(json, { duplicateKeys: 'first' })).toEqual({ role: 'user', name: 'John' })
+  })
+
+  it('rejects duplicates in error mode', () => {
+    expect(parse(json, { duplicateKeys: 'error' })).toBe(null)
+    expect(parse(json, { duplicateKeys: 'error', default: {} })).toEqual({})
+  })
+
+  it('reports both occurrences through parseWithDetails', () => {
+    const result = parseWithDetails('{\n  "user": {\n    "role": "user",\n    "role": "admin"\n  }\n}', { duplicateKeys: 'error' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.duplicateKey).toEqual({ key: 'role', path: 'user.role', position: 38, firstPosition: 18 })
+      expect(result.line).toBe(4)
+      expect(result.column).toBe(5)
+      expect(result.error).toContain("duplicate key 'role'")
+    }
+  })
+
+  it('works with jsonc syntax and schema', () => {
+    const result = parse('{"a":1, /* again */ "a":2,}', {
+      syntax: 'jsonc',
+      duplicateKeys: 'first',
+      schema: { a: 'number' }
+    })
+    expect(result).toEqual({ a: 1 })
+  })
+})
+
+describe('parse with date rules', () => {
+  const json = JSON.stringify({
+    day: '2023-01-01',
+    precise: '2023-01-01T10:00:00.123456Z',
+    orders: [{ placedAt: 1700000000, total: 5 }],
+    createdAt: 1700000000000,
+    note: '2023-01-01T10:00:00Z'
+  })
+  type Data = {
+    day: unknown
+    precise: unknown
+    orders: Array<{ placedAt: unknown, total: unknown }>
+    createdAt: unknown
+    note: unknown
+  }
+
+  it('revives more than 3 fractional digits by default', () => {
+    const result = parse<Data>(json, { dates: true })
+    expect(result?.precise).toEqual(new Date('2023-01-01T10:00:00.123Z'))
+    expect(result?.day).toBe('2023-01-01')
+  })
+
+  it('revives date-only strings when the format is enabled', () => {
+    const result = parse<Data>(json, { dates: { formats: ['iso', 'date'] } })
+    expect(result?.day).toEqual(new Date('2023-01-01'))
+    expect(result?.note).toBeInstanceOf(Date)
+  })
+
+  it('accepts custom formats', () => {
+    const result = parse<{ at: unknown }>('{"at":"01/02/2023"}', { dates: { formats: [/^\d{2}\/\d{2}\/\d{4}$/] } })
+    expect(result?.at).toEqual(new Date('01/02/2023'))
+  })
+
+  it('matches every value with global and sticky patterns', () => {
+    const text = '{"a":{"at":"01/02/2023"},"b":{"at":"03/04/2023"},"c":{"at":"05/06/2023"}}'
+    const format = /\d{2}\/\d{2}\/\d{4}/g
+    for (const dates of [{ formats: [format] }, { formats: [format], keys: [/at/g] }, { formats: [format], paths: [/at$/y, /\.at$/g] }]) {
+      const result = parse<Record<string, { at: unknown }>>(text, { dates })
+      expect(Object.values(result ?? {}).map(item => item.at instanceof Date)).toEqual([true, true, true])
+    }
+    expect(format.lastIndex).toBe(0)
+  })
+
+  it('limits revival to matching keys', () => {
+    const result = parse<Data>(json, { dates: { keys: ['note'] } })
+    expect(result?.note).toBeInstanceOf(Date)
+    expect(result?.precise).toBe('2023-01-01T10:00:00.123456Z')
+  })
+
+  it('limits revival to matching paths', () => {
+    const result = parse<{ a: { at: unknown }, b: { at: unknown } }>(
+      '{"a":{"at":"2023-01-01T10:00:00Z"},"b":{"at":"2023-01-01T10:00:00Z"}}',
+      { dates: { paths: ['b.at'] } }
+    )
+    expect(result?.a.at).toBe('2023-01-01T10:00:00Z')
+    expect(result?.b.at).toBeInstanceOf(Date)
+  })
+
+  it('revives timestamps in seconds at wildcard paths', () => {
+    const result = parse<Data>(json, { dates: { paths: ['orders[*].placedAt'], timestamps: 's' } })
+    expect(result?.orders[0].placedAt).toEqual(new Date(1700000000 * 1000))
+    expect(result?.orders[0].total).toBe(5)
+    expect(result?.createdAt).toBe(1700000000000)
+  })
+
+  it('revives timestamps in milliseconds at matching keys', () => {
+    const result = parse<Data>(json, { dates: { keys: [/At$/], timestamps: 'ms' } })
+    expect(result?.createdAt).toEqual(new Date(1700000000000))
+    expect(result?.orders[0].placedAt).toEqual(new Date(1700000000))
+  })
+
+  it('round-trips timestamp serialization', () => {
+    const date = new Date('2023-01-01T10:00:00Z')
+    const text = stringify({ createdAt: date }, { dates: 'timestamp' }) ?? ''
+    expect(parse(text, { dates: { keys: ['createdAt'], timestamps: 'ms' } })).toEqual({ createdAt: date })
+  })
+
+  it('never revives numbers without keys or paths', () => {
+    const result = parse<Data>(json, { dates: { timestamps: 'ms' } })
+    expect(result?.createdAt).toBe(1700000000000)
+  })
+
+  it('builds values with a custom factory', () => {
+    const result = parse<Data>(json, {
+      dates: { keys: ['note', 'createdAt'], timestamps: 'ms', factory: (value, key) => ({ key, value }) }
+    })
+    expect(result?.note).toEqual({ key: 'note', value: '2023-01-01T10:00:00Z' })
+    expect(result?.createdAt).toEqual({ key: 'createdAt', value: 1700000000000 })
+  })
+
+  it('passes revived values to the reviver', () => {
+    const result = parse<Data>(json, {
+      dates: { keys: ['note'] },
+      reviver: (key, value) => key === 'note' && value instanceof Date ? value.getUTCFullYear() : value
+    })
+    expect(result?.note).toBe(2023)
+  })
+
+  it('keeps invalid dates as strings', () => {
+    expect(parse('{"a":"2023-13-45"}', { dates: { formats: ['date'] } })).toEqual({ a: '2023-13-45' })
+  })
+})
+
+describe('path-aware callbacks', () => {
+  const json = '{"orders":[{"placedAt":"2024-01-15T10:00:00Z"}],"placedAt":"2024-01-15T10:00:00Z"}'
+
+  it('passes location context to pathReviver', () => {
+    const result = parse<{ orders: Array<{ placedAt: unknown }>, placedAt: unknown }>(json, {
+      pathReviver: (key, value, { path }) =>
+        path[0] === 'orders' && key === 'placedAt' ? new Date(value as string) : value
+    })
+    expect(result?.orders[0].placedAt).toBeInstanceOf(Date)
+    expect(result?.placedAt).toBe('2024-01-15T10:00:00Z')
+  })
+
+  it('reports pointer, path, parent and depth', () => {
+    const contexts: unknown[] = []
+    parse('{"a/b":[true]}', {
+      pathReviver: (_key, value, context) => {
+        if (value === true) contexts.push(context)
+        return value
+      }
+    })
+    expect(contexts).toEqual([{ pointer: '/a~1b/0', path: ['a/b', 0], parent: [true], depth: 2 }])
+  })
+
+  it('passes context through the dates reviver', () => {
+    const pointers: string[] = []
+    const result = parse<{ at: Date }>('{"at":"2024-01-15T10:00:00Z"}', {
+      dates: true,
+      pathReviver: (_key, value, { pointer }) => {
+        if (value instanceof Date) pointers.push(pointer)
+        return value
+      }
+    })
+    expect(result?.at).toBeInstanceOf(Date)
+    expect(pointers).toEqual(['/at'])
+  })
+
+  it('works with the built-in parser', () => {
+    const result = parse('{a: [1, 2]}', {
+      syntax: 'json5',
+      pathReviver: (_key, value, { pointer }) => pointer === '/a/1' ? 20 : value
+    })
+    expect(result).toEqual({ a: [1, 20] })
+  })
+
+  it('takes precedence over reviver', () => {
+    const result = parse('{"a":1}', {
+      reviver: () => 'reviver',
+      pathReviver: (_key, value, { depth }) => depth === 1 ? 'path' : value
+    })
+    expect(result).toEqual({ a: 'path' })
+  })
+
+  it('passes location context to pathReplacer', () => {
+    const pointers: string[] = []
+    const result = stringify({ user: { password: 'secret', tags: ['a'] } }, {
+      pathReplacer: (_key, value, { pointer, depth }) => {
+        pointers.push(`${pointer}@${depth}`)
+        return pointer === '/user/password' ? '***' : value
+      }
+    })
+    expect(result).toBe('{"user":{"password":"***","tags":["a"]}}')
+    expect(pointers).toEqual(['@0', '/user@1', '/user/password@2', '/user/tags@2', '/user/tags/0@3'])
+  })
+
+  it('tracks paths through replaced values', () => {
+    const result = stringify({ a: 1 }, {
+      pathReplacer: (_key, value, { pointer }) => {
+        if (pointer === '/a') return { b: 2 }
+        if (pointer === '/a/b') return 3
+        return value
+      }
+    })
+    expect(result).toBe('{"a":{"b":3}}')
+  })
+
+  it('still marks circular references', () => {
+    const obj: Record<string, unknown> = { a: 1 }
+    obj.self = obj
+    expect(stringify(obj, { pathReplacer: (_key, value) => value })).toBe('{"a":1,"self":"[Circular]"}')
+  })
+})
+
+describe('parse with repair option', () => {
+  it('exports repair', () => {
+    expect(repair('[1,').text).toBe('[1]')
+  })
+
+  const broken = "```json\n{name: 'John', tags: ['a', 'b',], active: True\n```"
+
+  it('repairs almost-valid JSON before giving up', () => {
+    expect(parse(broken)).toBe(null)
+    expect(parse(broken, { repair: true })).toEqual({ name: 'John', tags: ['a', 'b'], active: true })
+  })
+
+  it('keeps valid JSON on the fast path', () => {
+    expect(parse('{"a":1}', { repair: true })).toEqual({ a: 1 })
+  })
+
+  it('returns default when repair does not help', () => {
+    expect(parse('', { repair: true, default: 'fallback' })).toBe('fallback')
+  })
+
+  it('still applies schema and limits to repaired input', () => {
+    expect(parse('{"age": "30"', { repair: true, schema: { age: 'number' } })).toBe(null)
+    expect(parse('[1, 2, 3', { repair: true, maxArrayLength: 2 })).toBe(null)
+    expect(parse('[1, 2', { repair: true, maxArrayLength: 2 })).toEqual([1, 2])
+  })
+})
+
 describe('stringify', () => {
   it('stringifies values', () => {
     expect(stringify({ a: 1 })).toBe('{"a":1}')
@@ -99,6 +460,16 @@ describe('stringify', () => {
     expect(stringify({ value: BigInt(123) })).toBe('{"value":"123n"}')
   })
 
+  it('writes BigInt values as raw literals in literal mode', () => {
+    expect(stringify({ value: BigInt(123) }, { bigint: 'literal' })).toBe('{"value":123}')
+    expect(stringify(2n ** 64n, { bigint: 'literal' })).toBe('18446744073709551616')
+    expect(stringify({ a: [1n] }, { bigint: 'literal', space: 2 })).toBe('{\n  "a": [\n    1\n  ]\n}')
+  })
+
+  it('leaves look-alike strings untouched in literal mode', () => {
+    expect(stringify({ value: '@@bigint:abc:1', n: 1n }, { bigint: 'literal' })).toBe('{"value":"@@bigint:abc:1","n":1}')
+  })
+
   it('applies custom spacing', () => {
     expect(stringify({ a: 1 }, { space: 2 })).toBe('{\n  "a": 1\n}')
   })
@@ -395,6 +766,230 @@ describe('tryParse', () => {
     const [result] = tryParse('{"text":"line1\\nline2"}')
     expect((result as { text: string }).text).toBe('line1\nline2')
   })
+
+  it('accepts parse options', () => {
+    const [result, error] = tryParse('{"date":"2023-01-01T10:00:00Z","__proto__":{}}', {
+      dates: true,
+      safeKeys: { action: 'strip' },
+      maxDepth: 2
+    })
+    expect(error).toBe(null)
+    expect((result as { date: Date }).date).toBeInstanceOf(Date)
+    expect(Object.keys(result as object)).toEqual(['date'])
+  })
+
+  it('enforces limits from options', () => {
+    const [result, error] = tryParse('{"data":"xxxxxxxx"}', { maxSize: 5 })
+    expect(result).toBe(null)
+    expect(error?.code).toBe('MAX_SIZE')
+    expect(tryParse('[[[1]]]', { maxDepth: 1 })[1]?.code).toBe('MAX_DEPTH')
+  })
+
+  it('returns the specific schema error', () => {
+    const [result, error] = tryParse('{"user":{"age":"30"}}', { schema: { user: { age: 'number' } } })
+    expect(result).toBe(null)
+    expect(error?.code).toBe('SCHEMA')
+    expect(error?.path).toBe('user.age')
+    expect(error?.message).toContain('Expected number')
+    expect(error?.cause).toMatchObject({ path: 'user.age', expected: 'number', actual: 'string' })
+  })
+
+  it('returns every schema error with abortEarly: false', () => {
+    const schema = { user: { age: 'number', name: 'string' } }
+    const [, error] = tryParse('{"user":{"age":"30","name":null}}', { schema, abortEarly: false })
+    expect(error?.code).toBe('SCHEMA')
+    expect(error?.path).toBe('user.age')
+    expect(error?.message).toBe(`Expected number at 'age', got string (and 1 more)`)
+    expect(error?.cause).toEqual([
+      expect.objectContaining({ path: 'user.age' }),
+      expect.objectContaining({ path: 'user.name', actual: 'null' })
+    ])
+
+    const details = parseWithDetails('[1, "2", "3"]', { schema: { a: 'number' }, abortEarly: false })
+    expect(details.success).toBe(false)
+    if (!details.success) expect(details.errors?.map(e => e.path)).toEqual(['root'])
+
+    const many = parseWithDetails(`{"list":${JSON.stringify(Array(50).fill('x'))}}`, {
+      schema: { list: ['number'] }, abortEarly: false, maxErrors: 5
+    })
+    if (!many.success) expect(many.errors).toHaveLength(5)
+  })
+
+  it('applies syntax and repair options', () => {
+    expect(tryParse('{a: 1}', { syntax: 'json5' })[0]).toEqual({ a: 1 })
+    expect(tryParse("{'a': True,", { repair: true })[0]).toEqual({ a: true })
+  })
+
+  it('reports the original syntax error when repair does not help', () => {
+    const [, error] = tryParse('', { repair: true })
+    expect(error?.code).toBe('SYNTAX')
+    expect(error?.position).toBe(0)
+  })
+
+  it('still accepts positional arguments', () => {
+    const [result, error] = tryParse('{"d":"2023-01-01T10:00:00Z"}', undefined, true)
+    expect(error).toBe(null)
+    expect((result as { d: Date }).d).toBeInstanceOf(Date)
+  })
+
+  it('returns HandleJsonError with code and exact position', () => {
+    const [, error] = tryParse('{"a": tru}')
+    expect(error).toBeInstanceOf(HandleJsonError)
+    expect(error?.code).toBe('SYNTAX')
+    expect(error?.position).toBe(6)
+    expect(error?.cause).toBeInstanceOf(SyntaxError)
+  })
+
+  it('reports reviver failures as UNKNOWN', () => {
+    const failure = new Error('boom')
+    const [, error] = tryParse('{"a":1}', () => { throw failure })
+    expect(error?.code).toBe('UNKNOWN')
+    expect(error?.message).toBe('boom')
+    expect(error?.cause).toBe(failure)
+  })
+})
+
+describe('canonical stringify', () => {
+  it('matches the RFC 8785 example', () => {
+    const value = {
+      numbers: [333333333.33333329, 1E30, 4.50, 2e-3, 0.000000000000000000000000001],
+      string: '\u20ac$\u000F\nA\'B"\\\\"/',
+      literals: [null, true, false]
+    }
+    expect(canonicalize(value)).toBe(
+      '{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],' +
+      '"string":"\u20ac$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}'
+    )
+  })
+
+  it('sorts keys recursively by UTF-16 code units', () => {
+    const value = { b: [{ z: 1, a: 2 }], a: { d: 1, c: 2 }, '\u20ac': 1, '\r': 2, '\ud83d\ude00': 3, '\ufb33': 4 }
+    expect(canonicalize(value)).toBe('{"\\r":2,"a":{"c":2,"d":1},"b":[{"a":2,"z":1}],"\u20ac":1,"\ud83d\ude00":3,"\ufb33":4}')
+  })
+
+  it('sorts integer-like keys as strings', () => {
+    expect(canonicalize({ b: 1, '10': 2, '9': 3 })).toBe('{"10":2,"9":3,"b":1}')
+    expect(canonicalize({ '\r': 2, '1': 3 })).toBe('{"\\r":2,"1":3}')
+    expect(canonicalize({ list: [{ '2': 'b', '10': 'a', '\u0001': 'c' }] })).toBe('{"list":[{"\\u0001":"c","10":"a","2":"b"}]}')
+  })
+
+  it('sorts keys of codec wrappers, redacted and truncated values', () => {
+    expect(canonicalize({ '2': new Map([[1, 2]]), '10': 'secret' }, { types: true, redact: ['10'] }))
+      .toBe('{"10":"[REDACTED]","2":{"$type":"Map","value":[[1,2]]}}')
+    expect(canonicalize({ '2': [1, 2, 3], '10': 1 }, { maxArrayLength: 1 })).toBe('{"10":1,"2":[1,"... 2 more items"]}')
+  })
+
+  it('is the same for objects built in different orders', () => {
+    expect(canonicalize({ a: 1, b: { x: 1, y: 2 } })).toBe(canonicalize({ b: { y: 2, x: 1 }, a: 1 }))
+  })
+
+  it('ignores space', () => {
+    expect(stringify({ b: 1, a: 2 }, { canonical: true, space: 2 })).toBe('{"a":2,"b":1}')
+  })
+
+  it('writes -0 as 0', () => {
+    expect(canonicalize([-0])).toBe('[0]')
+  })
+
+  it('rejects values JCS cannot represent', () => {
+    const [, nan] = tryStringify({ x: [NaN] }, { canonical: true })
+    expect(nan?.code).toBe('INVALID_VALUE')
+    expect(nan?.path).toBe('x[0]')
+    expect(tryStringify({ x: Infinity }, { canonical: true })[1]?.code).toBe('INVALID_VALUE')
+    expect(tryStringify({ x: '\ud800' }, { canonical: true })[1]?.code).toBe('INVALID_VALUE')
+    expect(tryStringify({ '\udc00': 1 }, { canonical: true })[1]?.code).toBe('INVALID_VALUE')
+    expect(canonicalize({ x: NaN })).toBe(null)
+  })
+
+  it('reuses the bigint handling', () => {
+    expect(canonicalize({ n: 10n })).toBe('{"n":"10n"}')
+    expect(canonicalize({ n: 10n }, { bigint: 'literal' })).toBe('{"n":10}')
+    const [, error] = tryStringify({ n: 2n ** 60n }, { canonical: true, bigint: 'literal' })
+    expect(error?.code).toBe('INVALID_VALUE')
+  })
+
+  it('reuses the circular handling', () => {
+    const obj: Record<string, unknown> = { b: 1 }
+    obj.a = { self: obj }
+    expect(canonicalize(obj)).toBe('{"a":{"self":"[Circular]"},"b":1}')
+    expect(canonicalize(obj, { references: 'pointer' })).toBe('{"a":{"self":{"$ref":"#"}},"b":1}')
+  })
+})
+
+describe('stringify value policies', () => {
+  it('follows JSON.stringify by default', () => {
+    expect(stringify({ a: NaN, b: Infinity, c: undefined, d: -0, list: [undefined] })).toBe('{"a":null,"b":null,"d":0,"list":[null]}')
+  })
+
+  it('writes non-finite numbers as strings', () => {
+    expect(stringify([NaN, Infinity, -Infinity, 1], { nonFinite: 'string' })).toBe('["NaN","Infinity","-Infinity",1]')
+  })
+
+  it('rejects non-finite numbers with their path', () => {
+    const [result, error] = tryStringify({ metrics: [1, NaN] }, { nonFinite: 'error' })
+    expect(result).toBeNull()
+    expect(error?.code).toBe('INVALID_VALUE')
+    expect(error?.path).toBe('metrics[1]')
+    expect(stringify({ a: Infinity }, { nonFinite: 'error' })).toBeNull()
+  })
+
+  it('writes undefined as null', () => {
+    expect(stringify({ a: undefined, b: [undefined] }, { undefinedValues: 'null' })).toBe('{"a":null,"b":[null]}')
+    expect(stringify(undefined, { undefinedValues: 'null' })).toBe('null')
+  })
+
+  it('rejects undefined with its path', () => {
+    const [, error] = tryStringify({ user: { name: undefined } }, { undefinedValues: 'error' })
+    expect(error?.code).toBe('INVALID_VALUE')
+    expect(error?.path).toBe('user.name')
+    expect(tryStringify([1, undefined], { undefinedValues: 'error' })[1]?.path).toBe('[1]')
+  })
+
+  it('still lets a replacer drop keys', () => {
+    const replacer = (key: string, value: unknown) => key === 'secret' ? undefined : value
+    expect(stringify({ secret: 1, a: 2 }, { replacer, undefinedValues: 'error' })).toBe('{"a":2}')
+  })
+
+  it('preserves -0', () => {
+    expect(stringify({ a: -0, b: [0, -0] }, { negativeZero: 'preserve' })).toBe('{"a":-0,"b":[0,-0]}')
+    expect(Object.is(parse<{ a: number }>(stringify({ a: -0 }, { negativeZero: 'preserve' })!)?.a, -0)).toBe(true)
+    expect(stringify({ a: -0, n: 5n }, { negativeZero: 'preserve', bigint: 'literal' })).toBe('{"a":-0,"n":5}')
+    expect(stringify({ n: 5n }, { negativeZero: 'preserve' })).toBe('{"n":"5n"}')
+  })
+
+  it('rejects -0 with its path', () => {
+    const [, error] = tryStringify({ delta: -0 }, { negativeZero: 'error' })
+    expect(error?.code).toBe('INVALID_VALUE')
+    expect(error?.path).toBe('delta')
+  })
+
+  it('writes 0 for -0 in canonical output', () => {
+    expect(canonicalize({ a: -0 }, { negativeZero: 'preserve' })).toBe('{"a":0}')
+    expect(canonicalize({ a: NaN }, { nonFinite: 'string' })).toBe('{"a":"NaN"}')
+  })
+})
+
+describe('parse nonFinite option', () => {
+  it('reads non-finite strings back as numbers', () => {
+    const result = parse<{ a: number[], b: string }>('{"a":["NaN","Infinity","-Infinity",1],"b":"nan"}', { nonFinite: 'string' })
+    expect(result?.a).toEqual([NaN, Infinity, -Infinity, 1])
+    expect(result?.b).toBe('nan')
+  })
+
+  it('leaves the strings alone by default', () => {
+    expect(parse('["NaN"]')).toEqual(['NaN'])
+  })
+
+  it('round trips with stringify', () => {
+    const value = { up: Infinity, down: -Infinity, broken: NaN }
+    expect(parse(stringify(value, { nonFinite: 'string' })!, { nonFinite: 'string' })).toEqual(value)
+  })
+
+  it('runs before the reviver', () => {
+    const seen: unknown[] = []
+    parse('["Infinity"]', { nonFinite: 'string', reviver: (_key, value) => { seen.push(value); return value } })
+    expect(seen[0]).toBe(Infinity)
+  })
 })
 
 describe('tryStringify', () => {
@@ -423,6 +1018,11 @@ describe('tryStringify', () => {
     expect(error).toBe(null)
   })
 
+  it('writes BigInt values as raw literals in literal mode', () => {
+    const [result] = tryStringify({ value: BigInt(123) }, { bigint: 'literal' })
+    expect(result).toBe('{"value":123}')
+  })
+
   it('accepts StringifyOptions', () => {
     const [result] = tryStringify({ a: 1 }, { space: 2 })
     expect(result).toBe('{\n  "a": 1\n}')
@@ -520,6 +1120,16 @@ describe('tryStringify', () => {
     const [result] = tryStringify([1, 'two', true, null, {}])
     expect(result).toBe('[1,"two",true,null,{}]')
   })
+
+  it('returns HandleJsonError with STRINGIFY code', () => {
+    const failure = new Error('no JSON for you')
+    const [result, error] = tryStringify({ toJSON: () => { throw failure } })
+    expect(result).toBe(null)
+    expect(error).toBeInstanceOf(HandleJsonError)
+    expect(error?.code).toBe('STRINGIFY')
+    expect(error?.message).toBe('no JSON for you')
+    expect(error?.cause).toBe(failure)
+  })
 })
 
 describe('isValid', () => {
@@ -545,6 +1155,16 @@ describe('isValid', () => {
     expect(isValid('{"text":"café"}')).toBe(true)
     expect(isValid('{"text":"日本語"}')).toBe(true)
   })
+
+  it('applies parse options', () => {
+    expect(isValid('[[1]]', { maxDepth: 2 })).toBe(true)
+    expect(isValid('[[[1]]]', { maxDepth: 2 })).toBe(false)
+    expect(isValid('{"data":"xxxxxxxx"}', { maxSize: 5 })).toBe(false)
+    expect(isValid('{"age":30}', { schema: { age: 'number' } })).toBe(true)
+    expect(isValid('{"age":"30"}', { schema: { age: 'number' } })).toBe(false)
+    expect(isValid('{"__proto__":{}}', { safeKeys: { action: 'error' } })).toBe(false)
+    expect(isValid('[1, 2,]', { repair: true })).toBe(true)
+  })
 })
 
 describe('format', () => {
@@ -612,6 +1232,75 @@ describe('format', () => {
   })
 })
 
+describe('format layout options', () => {
+  const shape = { type: 'Polygon', coordinates: [[0, 0], [1, 0], [1, 1]], meta: { tags: [] } }
+
+  it('keeps containers on one line when they fit', () => {
+    expect(format(shape, { maxLineWidth: 100 }))
+      .toBe('{"type": "Polygon", "coordinates": [[0, 0], [1, 0], [1, 1]], "meta": {"tags": []}}')
+  })
+
+  it('wraps only the containers that do not fit', () => {
+    expect(format(shape, { maxLineWidth: 50 })).toBe([
+      '{',
+      '  "type": "Polygon",',
+      '  "coordinates": [[0, 0], [1, 0], [1, 1]],',
+      '  "meta": {"tags": []}',
+      '}'
+    ].join('\n'))
+  })
+
+  it('counts the trailing comma against the width', () => {
+    const value = { a: [1, 2], b: 1 }
+    // '  "a": [1, 2],' is 14 characters
+    expect(format(value, { maxLineWidth: 14 })).toBe('{\n  "a": [1, 2],\n  "b": 1\n}')
+    expect(format(value, { maxLineWidth: 13 })).toBe('{\n  "a": [\n    1,\n    2\n  ],\n  "b": 1\n}')
+  })
+
+  it('formats JSON strings with a width', () => {
+    expect(format('[1,[2,3]]', { maxLineWidth: 20 })).toBe('[1, [2, 3]]')
+  })
+
+  it('accepts tab and string indents', () => {
+    expect(format({ a: 1 }, { space: '\t' })).toBe('{\n\t"a": 1\n}')
+    expect(format({ a: [1] }, '--')).toBe('{\n--"a": [\n----1\n--]\n}')
+    expect(format({ a: { b: 1 } }, { space: '\t', maxLineWidth: 8 })).toBe('{\n\t"a": {\n\t\t"b": 1\n\t}\n}')
+  })
+
+  it('sorts keys at every level', () => {
+    expect(format({ b: 1, a: { d: 1, c: 2 } }, { sortKeys: true, space: 0 })).toBe('{"a":{"c":2,"d":1},"b":1}')
+    expect(format({ b: 1, a: 2 }, { sortKeys: true })).toBe('{\n  "a": 2,\n  "b": 1\n}')
+  })
+
+  it('sorts keys with a comparator', () => {
+    const reverse = (a: string, b: string) => b.localeCompare(a)
+    expect(format({ a: 1, b: 2 }, { sortKeys: reverse, maxLineWidth: 80 })).toBe('{"b": 2, "a": 1}')
+  })
+
+  it('sorts integer-like keys like any other key', () => {
+    const reverse = (a: string, b: string) => b.localeCompare(a)
+    expect(format({ a: 1, '2': 2, '1': 1, b: 3 }, { sortKeys: reverse, space: 0 })).toBe('{"b":3,"a":1,"2":2,"1":1}')
+    expect(format({ b: 1, '10': 2, '9': 3 }, { sortKeys: true, space: 0 })).toBe('{"10":2,"9":3,"b":1}')
+    expect(format({ x: { '9': 1, '10': 2 } }, { sortKeys: true })).toBe('{\n  "x": {\n    "10": 2,\n    "9": 1\n  }\n}')
+    expect(format({ x: { '9': 1, '10': 2 } }, { sortKeys: true, maxLineWidth: 80 })).toBe('{"x": {"10": 2, "9": 1}}')
+  })
+
+  it('uses the given line ending', () => {
+    expect(format({ a: 'x\ny' }, { eol: '\r\n' })).toBe('{\r\n  "a": "x\\ny"\r\n}')
+  })
+
+  it('adds a trailing newline', () => {
+    expect(format({ a: 1 }, { trailingNewline: true })).toBe('{\n  "a": 1\n}\n')
+    expect(format({ a: 1 }, { trailingNewline: true, eol: '\r\n', space: 0 })).toBe('{"a":1}\r\n')
+  })
+
+  it('handles circular references with a width', () => {
+    const obj: Record<string, unknown> = { a: 1 }
+    obj.self = obj
+    expect(format(obj, { maxLineWidth: 80 })).toBe('{"a": 1, "self": "[Circular]"}')
+  })
+})
+
 describe('minify', () => {
   it('minifies objects', () => {
     expect(minify({ a: 1, b: 2 })).toBe('{"a":1,"b":2}')
@@ -936,6 +1625,76 @@ describe('parseWithDetails', () => {
       expect(result.position).toBeDefined()
     }
   })
+
+  it('reports exact line and column', () => {
+    const json = '{\n  "name": "John",\n  invalid\n}'
+    const result = parseWithDetails(json)
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.position).toBe(json.indexOf('invalid'))
+      expect(result.line).toBe(3)
+      expect(result.column).toBe(3)
+    }
+  })
+
+  it('reports expected and found tokens', () => {
+    const result = parseWithDetails('{"name":"John",}')
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.position).toBe(15)
+      expect(result.expected).toBe('string')
+      expect(result.found).toBe("'}'")
+    }
+  })
+
+  it('reports error codes', () => {
+    const cases: Array<[string, Parameters<typeof parseWithDetails>[1], string]> = [
+      ['{"a":}', undefined, 'SYNTAX'],
+      ['{"a":1,"a":2}', { duplicateKeys: 'error' }, 'DUPLICATE_KEY'],
+      ['{"data":"xxxxxxxx"}', { maxSize: 5 }, 'MAX_SIZE'],
+      ['[[[1]]]', { maxDepth: 1 }, 'MAX_DEPTH'],
+      ['{"a":1,"b":2}', { maxKeys: 1 }, 'MAX_KEYS'],
+      ['[1,2,3]', { maxArrayLength: 2 }, 'MAX_ARRAY_LENGTH'],
+      ['["abcdef"]', { maxStringLength: 3 }, 'MAX_STRING_LENGTH'],
+      ['[1,2,3]', { maxTotalNodes: 2 }, 'MAX_TOTAL_NODES'],
+      ['{"age":"30"}', { schema: { age: 'number' } }, 'SCHEMA'],
+      ['{"__proto__":{}}', { safeKeys: { action: 'error' } }, 'UNSAFE_KEY']
+    ]
+    for (const [json, options, code] of cases) {
+      const result = parseWithDetails(json, options)
+      expect(result.success ? undefined : result.code).toBe(code)
+    }
+  })
+
+  it('returns the structured error with path and cause', () => {
+    const result = parseWithDetails('{"users":[{"name":1}]}', { schema: { users: [{ name: 'string' }] } })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.cause).toBeInstanceOf(HandleJsonError)
+      expect(result.path).toBe('users[0].name')
+      expect(result.cause.path).toBe('users[0].name')
+      expect(result.error).toBe(result.cause.message)
+    }
+  })
+
+  it('includes path for limit errors', () => {
+    const result = parseWithDetails('{"a":{"b":[1,2,3]}}', { maxArrayLength: 2 })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.code).toBe('MAX_ARRAY_LENGTH')
+      expect(result.path).toBe('a.b[2]')
+      expect(result.position).toBe(15)
+    }
+  })
+
+  it('omits token details for non-syntax errors', () => {
+    const result = parseWithDetails('{"data":"xxxxxxxx"}', { maxSize: 5 })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.line).toBeUndefined()
+      expect(result.expected).toBeUndefined()
+    }
+  })
 })
 
 describe('security features', () => {
@@ -990,6 +1749,69 @@ describe('security features', () => {
       const result = parse(deepArray, { maxDepth: 10 })
       expect(result).toEqual({ items: [[[[[1]]]]] })
     })
+
+    it('rejects huge nesting without building it', () => {
+      const hostile = '['.repeat(10_000_000)
+      expect(parse(hostile, { maxDepth: 100 })).toBe(null)
+    })
+
+    it('applies maxDepth to jsonc input', () => {
+      expect(parse('{"a": {"b": 1}, // c\n}', { syntax: 'jsonc', maxDepth: 1 })).toBe(null)
+      expect(parse('{"a": {"b": 1}, // c\n}', { syntax: 'jsonc', maxDepth: 2 })).toEqual({ a: { b: 1 } })
+    })
+  })
+
+  describe('structure limits', () => {
+    it('rejects objects with too many keys', () => {
+      expect(parse('{"a":1,"b":2,"c":3}', { maxKeys: 2 })).toBe(null)
+      expect(parse('{"a":1,"b":2}', { maxKeys: 2 })).toEqual({ a: 1, b: 2 })
+    })
+
+    it('rejects arrays that are too long', () => {
+      expect(parse('[1,2,3]', { maxArrayLength: 2 })).toBe(null)
+      expect(parse('[1,2]', { maxArrayLength: 2 })).toEqual([1, 2])
+    })
+
+    it('rejects strings that are too long', () => {
+      expect(parse('{"data":"' + 'x'.repeat(100) + '"}', { maxStringLength: 50 })).toBe(null)
+      expect(parse('{"data":"xx"}', { maxStringLength: 50 })).toEqual({ data: 'xx' })
+    })
+
+    it('rejects input with too many nodes', () => {
+      expect(parse('[1,2,3,4]', { maxTotalNodes: 4 })).toBe(null)
+      expect(parse('[1,2,3]', { maxTotalNodes: 4 })).toEqual([1, 2, 3])
+    })
+
+    it('reports the limit and position through parseWithDetails', () => {
+      const result = parseWithDetails('{"tags":["a","b","c"]}', { maxArrayLength: 2 })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toContain('Maximum array length 2 exceeded')
+        expect(result.position).toBe(17)
+        expect(result.context).toContain('"c"')
+      }
+    })
+  })
+
+  describe('input size encoding', () => {
+    it('counts UTF-16 code units by default', () => {
+      expect(parse('"日本語"', { maxSize: 5 })).toBe('日本語')
+    })
+
+    it('counts UTF-8 bytes when sizeEncoding is utf8', () => {
+      expect(parse('"日本語"', { maxSize: 5, sizeEncoding: 'utf8' })).toBe(null)
+      expect(parse('"日本語"', { maxSize: 11, sizeEncoding: 'utf8' })).toBe('日本語')
+      expect(parse('"😀"', { maxSize: 6, sizeEncoding: 'utf8' })).toBe('😀')
+      expect(parse('"😀"', { maxSize: 5, sizeEncoding: 'utf8' })).toBe(null)
+    })
+
+    it('reports the byte size', () => {
+      const result = parseWithDetails('"café"', { maxSize: 6, sizeEncoding: 'utf8' })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toContain('Input size 7 exceeds maximum 6 bytes')
+      }
+    })
   })
 
   describe('prototype pollution protection', () => {
@@ -1060,6 +1882,92 @@ describe('security features', () => {
       expect(result).toEqual({ a: { b: { c: 1 } } })
     })
 
+    it('accepts a custom deny list', () => {
+      const result = parse('{"constructor":1,"secret":2,"name":"John"}', { safeKeys: { deny: ['secret'] } })
+      expect(result).toEqual({ constructor: 1, name: 'John' })
+    })
+
+    it('accepts a deny predicate with the key path', () => {
+      const paths: string[] = []
+      const result = parse('{"a":{"$where":1,"b":2},"$where":3}', {
+        safeKeys: {
+          deny: (key, path) => {
+            paths.push(path)
+            return key.startsWith('$') && path !== '$where'
+          }
+        }
+      })
+      expect(result).toEqual({ a: { b: 2 }, $where: 3 })
+      expect(paths).toContain('a.$where')
+    })
+
+    it('passes every key its full path, through arrays and renamed keys', () => {
+      const paths: string[] = []
+      parse('{"list":[[{"a":{"b":1}}],2],"x":{}}', { safeKeys: { deny: (key, path) => !paths.push(path) } })
+      expect(paths).toEqual(['list', 'list[0][0].a', 'list[0][0].a.b', 'x'])
+
+      const removed: string[] = []
+      parse('{"__proto__":{"items":[{"constructor":1}]}}', {
+        safeKeys: { action: 'rename', onUnsafeKey: path => removed.push(path) }
+      })
+      expect(removed).toEqual(['__proto__', '___proto__.items[0].constructor'])
+    })
+
+    it('accepts an allow predicate', () => {
+      const result = parse('{"name":"John","role":"admin","tags":[{"name":"x","extra":1}]}', {
+        safeKeys: { allow: key => ['name', 'tags'].includes(key) }
+      })
+      expect(result).toEqual({ name: 'John', tags: [{ name: 'x' }] })
+    })
+
+    it('fails on unsafe keys with the error action', () => {
+      const malicious = '{"user":{"__proto__":{"isAdmin":true}}}'
+      expect(parse(malicious, { safeKeys: { action: 'error' } })).toBe(null)
+      const result = parseWithDetails(malicious, { safeKeys: { action: 'error' } })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toContain("Unsafe key '__proto__' at 'user.__proto__'")
+      }
+    })
+
+    it('renames unsafe keys with the rename action', () => {
+      const result = parse('{"__proto__":{"isAdmin":true},"constructor":1}', { safeKeys: { action: 'rename' } })
+      expect(result).toEqual({ ___proto__: { isAdmin: true }, _constructor: 1 })
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+
+      const custom = parse('{"prototype":1}', { safeKeys: { action: 'rename', rename: key => `unsafe:${key}` } })
+      expect(custom).toEqual({ 'unsafe:prototype': 1 })
+    })
+
+    it('builds null-prototype objects when requested', () => {
+      const result = parse('{"a":{"b":1},"list":[{"c":2}],"__proto__":3}', { safeKeys: { nullPrototype: true } }) as Record<string, any>
+      expect(Object.getPrototypeOf(result)).toBe(null)
+      expect(Object.getPrototypeOf(result.a)).toBe(null)
+      expect(Object.getPrototypeOf(result.list[0])).toBe(null)
+      expect(result.a.b).toBe(1)
+      expect(Object.keys(result)).toEqual(['a', 'list'])
+    })
+
+    it('keeps allowed __proto__ keys as own properties', () => {
+      const result = parse('{"__proto__":{"isAdmin":true}}', { safeKeys: { deny: [] } }) as Record<string, unknown>
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+      expect(Object.keys(result)).toEqual(['__proto__'])
+    })
+
+    it('reports removed paths', () => {
+      const removed: string[] = []
+      parse('{"__proto__":1,"items":[{"constructor":2}]}', {
+        safeKeys: { onUnsafeKey: path => removed.push(path) }
+      })
+      expect(removed).toEqual(['__proto__', 'items[0].constructor'])
+
+      const result = parseWithDetails('{"__proto__":1,"items":[{"constructor":2}]}', { safeKeys: true })
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.removedPaths).toEqual(['__proto__', 'items[0].constructor'])
+      }
+    })
+
     it('security options work with schema validation', () => {
       const schema = { name: 'string', age: 'number' }
       const json = '{"name":"John","age":30}'
@@ -0,0 +1,351 @@
+import { describe, it, expect } from 'vitest'
+import { parseJson, applyReviver, convertNumber, formatPath, formatPointer } from '../src/parser'
+import { JsonSyntaxError, DuplicateKeyError, LimitExceededError } from '../src/errors'
+
+function syntaxError(json: string): JsonSyntaxError {
+  try {
+    parseJson(json)
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) return error
+    throw error
+  }
+  throw new Error(`Expected ${json} to be rejected`)
+}
+
+describe('parseJson', () => {
+  it('matches JSON.parse for valid input', () => {
+    const inputs = [
+      '{"a":1}',
+      '[1,2,3]',
+      '"hello"',
+      '-0.5e+10',
+      ' true ',
+      'null',
+      '{"a":{"b":[{},[],""]}}',
+      '"\\u00e9\\n\\"\\\\\\/\\b\\f\\r\\t"',
+      '{"emoji":"😀","text":"日本語"}',
+      '{"a":1,"a":2}'
+    ]
+    for (const input of inputs) {
+      expect(parseJson(input)).toEqual(JSON.parse(input))
+    }
+  })
+
+  it('keeps __proto__ as an own property', () => {
+    const result = parseJson('{"__proto__":{"isAdmin":true}}') as Record<string, unknown>
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+    expect(Object.keys(result)).toEqual(['__proto__'])
+    expect(({} as Record<string, unknown>).isAdmin).toBeUndefined()
+  })
+
+  it('rejects everything JSON.parse rejects', () => {
+    const inputs = ['', '{', '[1,]', '{"a":1,}', "{'a':1}", '{a:1}', '01', '1.', '-', '.5', '"\\x"', '"a\nb"', 'nul', '[1 2]', '1 2']
+    for (const input of inputs) {
+      expect(() => JSON.parse(input)).toThrow()
+      expect(() => parseJson(input)).toThrow(JsonSyntaxError)
+    }
+  })
+
+  it('handles deep nesting without recursion', () => {
+    const depth = 100000
+    const result = parseJson('['.repeat(depth) + ']'.repeat(depth))
+    expect(Array.isArray(result)).toBe(true)
+  })
+
+  describe('error locations', () => {
+    it('reports an unexpected word', () => {
+      const error = syntaxError('{"name":"John", invalid}')
+      expect(error.position).toBe(16)
+      expect(error.line).toBe(1)
+      expect(error.column).toBe(17)
+      expect(error.expected).toBe('string')
+      expect(error.found).toBe("'invalid'")
+    })
+
+    it('reports a missing comma', () => {
+      const error = syntaxError('{"name":"John" "age":30}')
+      expect(error.position).toBe(15)
+      expect(error.expected).toBe("',' or '}'")
+      expect(error.found).toBe("'\"'")
+    })
+
+    it('reports a trailing comma', () => {
+      const error = syntaxError('[1,2,]')
+      expect(error.position).toBe(5)
+      expect(error.expected).toBe('value')
+      expect(error.found).toBe("']'")
+    })
+
+    it('reports unexpected end of input', () => {
+      const error = syntaxError('{"a":[1,2')
+      expect(error.position).toBe(9)
+      expect(error.expected).toBe("',' or ']'")
+      expect(error.found).toBe('end of input')
+    })
+
+    it('reports trailing content', () => {
+      const error = syntaxError('{"a":1} x')
+      expect(error.position).toBe(8)
+      expect(error.expected).toBe('end of input')
+    })
+
+    it('reports lines and columns across newlines', () => {
+      const error = syntaxError('{\n  "a": 1,\n  "b" 2\n}')
+      expect(error.line).toBe(3)
+      expect(error.column).toBe(7)
+      expect(error.expected).toBe("':'")
+    })
+
+    it('reports invalid escapes and control characters inside strings', () => {
+      expect(syntaxError('"ab\\q"').position).toBe(4)
+      expect(syntaxError('"ab\\u12G4"').position).toBe(7)
+      expect(syntaxError('"a\tb"').found).toBe('control character U+0009')
+    })
+
+    it('reports malformed numbers', () => {
+      expect(syntaxError('[1.]').position).toBe(3)
+      expect(syntaxError('[1e]').expected).toBe('digit')
+      expect(syntaxError('-x').position).toBe(1)
+    })
+  })
+})
+
+describe('parseJson with jsonc syntax', () => {
+  it('skips line and block comments', () => {
+    const text = '// config\n{\n  /* port */ "port": 8080, // inline\n  "host": "localhost"\n}\n'
+    expect(parseJson(text, { syntax: 'jsonc' })).toEqual({ port: 8080, host: 'localhost' })
+  })
+
+  it('allows trailing commas', () => {
+    expect(parseJson('{"a":[1,2,],}', { syntax: 'jsonc' })).toEqual({ a: [1, 2] })
+  })
+
+  it('still rejects JSON5-only syntax', () => {
+    expect(() => parseJson("{'a':1}", { syntax: 'jsonc' })).toThrow(JsonSyntaxError)
+    expect(() => parseJson('{a:1}', { syntax: 'jsonc' })).toThrow(JsonSyntaxError)
+  })
+
+  it('reports unterminated block comments', () => {
+    expect(() => parseJson('{"a":1 /* oops', { syntax: 'jsonc' })).toThrow("expected '*/'")
+  })
+
+  it('rejects comments and trailing commas in json mode', () => {
+    expect(() => parseJson('{"a":1 // x\n}')).toThrow(JsonSyntaxError)
+    expect(() => parseJson('[1,]')).toThrow(JsonSyntaxError)
+  })
+})
+
+describe('parseJson with json5 syntax', () => {
+  const json5 = (text: string) => parseJson(text, { syntax: 'json5' })
+
+  it('accepts unquoted keys and single-quoted strings', () => {
+    expect(json5("{name: 'John', $id: 1, _x: 2, null: 3}")).toEqual({ name: 'John', $id: 1, _x: 2, null: 3 })
+  })
+
+  it('accepts extended numbers', () => {
+    expect(json5('[0x1F, -0xa, .5, 5., +1, Infinity, -Infinity]')).toEqual([31, -10, 0.5, 5, 1, Infinity, -Infinity])
+    expect(json5('NaN')).toBeNaN()
+  })
+
+  it('decodes JSON5 escapes and line continuations', () => {
+    expect(json5("'it\\'s \\x41\\v\\0'")).toBe("it's A\v\0")
+    expect(json5("'a\\\nb'")).toBe('ab')
+  })
+
+  it('accepts comments, trailing commas and extra whitespace', () => {
+    expect(json5('\uFEFF{ /* c */ a: [1,], // x\n}')).toEqual({ a: [1] })
+  })
+
+  it('rejects unknown identifiers as values', () => {
+    expect(() => json5('{a: undefined}')).toThrow('expected value')
+  })
+
+  it('rejects octal-like escapes and raw newlines in strings', () => {
+    expect(() => json5("'\\1'")).toThrow(JsonSyntaxError)
+    expect(() => json5("'a\nb'")).toThrow(JsonSyntaxError)
+  })
+})
+
+describe('applyReviver', () => {
+  it('matches JSON.parse reviver semantics', () => {
+    const text = '{"a":1,"b":[1,2,{"c":3}],"d":"x"}'
+    const reviver = (key: string, value: unknown) => {
+      if (key === 'd') return undefined
+      return typeof value === 'number' ? value * 10 : value
+    }
+    expect(applyReviver(parseJson(text), reviver)).toEqual(JSON.parse(text, reviver))
+  })
+
+  it('passes the location of each value with withPath', () => {
+    const seen: Array<[string, unknown, number]> = []
+    applyReviver({ a: [1, { b: 2 }] }, (_key, value, context) => {
+      if (context) seen.push([context.pointer, context.path, context.depth])
+      return value
+    }, { withPath: true })
+    expect(seen).toEqual([
+      ['/a/0', ['a', 0], 2],
+      ['/a/1/b', ['a', 1, 'b'], 3],
+      ['/a/1', ['a', 1], 2],
+      ['/a', ['a'], 1],
+      ['', [], 0]
+    ])
+  })
+
+  it('passes the holder as parent, except for the root', () => {
+    const data = { a: { b: 1 } }
+    const parents: unknown[] = []
+    applyReviver(data, (_key, value, context) => {
+      parents.push(context?.parent)
+      return value
+    }, { withPath: true })
+    expect(parents).toEqual([data.a, data, undefined])
+  })
+})
+
+describe('convertNumber', () => {
+  it('returns plain numbers by default', () => {
+    expect(convertNumber('9007199254740993')).toBe(9007199254740992)
+  })
+
+  it('converts every integer to bigint in bigint mode', () => {
+    expect(convertNumber('42', 'bigint')).toBe(42n)
+    expect(convertNumber('-9007199254740993', 'bigint')).toBe(-9007199254740993n)
+    expect(convertNumber('1.5', 'bigint')).toBe(1.5)
+  })
+
+  it('keeps lossy values as source text in string mode', () => {
+    expect(convertNumber('9007199254740993', 'string')).toBe('9007199254740993')
+    expect(convertNumber('0.1000000000000000000001', 'string')).toBe('0.1000000000000000000001')
+    expect(convertNumber('1e400', 'string')).toBe('1e400')
+    expect(convertNumber('42', 'string')).toBe(42)
+  })
+
+  it('only converts what would lose precision in auto mode', () => {
+    expect(convertNumber('42', 'auto')).toBe(42)
+    expect(convertNumber('9007199254740993', 'auto')).toBe(9007199254740993n)
+    expect(convertNumber('3.141592653589793238462643', 'auto')).toBe('3.141592653589793238462643')
+  })
+
+  it('treats equivalent spellings as lossless', () => {
+    expect(convertNumber('1.50', 'auto')).toBe(1.5)
+    expect(convertNumber('1e2', 'auto')).toBe(100)
+    expect(convertNumber('-0', 'auto')).toBe(-0)
+    expect(convertNumber('0.000001', 'auto')).toBe(0.000001)
+    expect(convertNumber('1.2345678901234568e+25', 'auto')).toBe(1.2345678901234568e+25)
+  })
+
+  it('handles JSON5 number forms', () => {
+    expect(convertNumber('0xFFFFFFFFFFFFFFFF', 'auto')).toBe(18446744073709551615n)
+    expect(convertNumber('-0x10', 'bigint')).toBe(-16n)
+    expect(convertNumber('+Infinity', 'auto')).toBe(Infinity)
+  })
+})
+
+describe('parseJson duplicate keys', () => {
+  it('keeps the last value by default', () => {
+    expect(parseJson('{"a":1,"a":2}')).toEqual({ a: 2 })
+    expect(parseJson('{"a":1,"a":2}', { duplicateKeys: 'last' })).toEqual({ a: 2 })
+  })
+
+  it('keeps the first value in first mode', () => {
+    expect(parseJson('{"a":1,"b":{"c":1},"a":2,"b":3}', { duplicateKeys: 'first' })).toEqual({ a: 1, b: { c: 1 } })
+  })
+
+  it('throws with key, path and both positions in error mode', () => {
+    const text = '{"users":[{"id":1},{"id":2,"role":"user","id":3}]}'
+    try {
+      parseJson(text, { duplicateKeys: 'error' })
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(DuplicateKeyError)
+      const duplicate = error as DuplicateKeyError
+      expect(duplicate.key).toBe('id')
+      expect(duplicate.path).toBe('users[1].id')
+      expect(duplicate.firstPosition).toBe(text.indexOf('"id":2'))
+      expect(duplicate.position).toBe(text.indexOf('"id":3'))
+      expect(duplicate.message).toContain("duplicate key 'id'")
+      expect(duplicate.message).toContain('first defined at line 1, column 21')
+    }
+  })
+
+  it('tracks keys per object', () => {
+    expect(parseJson('{"a":{"a":1},"b":{"a":2}}', { duplicateKeys: 'error' })).toEqual({ a: { a: 1 }, b: { a: 2 } })
+  })
+
+  it('compares decoded keys', () => {
+    expect(() => parseJson('{"a":1,"\\u0061":2}', { duplicateKeys: 'error' })).toThrow(DuplicateKeyError)
+  })
+})
+
+describe('formatPath', () => {
+  it('formats keys and indices', () => {
+    expect(formatPath(['users', 1, 'name'])).toBe('users[1].name')
+    expect(formatPath([0, 'id'])).toBe('[0].id')
+    expect(formatPath([])).toBe('')
+  })
+})
+
+describe('formatPointer', () => {
+  it('formats segments as a JSON Pointer', () => {
+    expect(formatPointer([])).toBe('')
+    expect(formatPointer(['users', 1, 'name'])).toBe('/users/1/name')
+  })
+
+  it('escapes ~ and /', () => {
+    expect(formatPointer(['a/b', 'c~d'])).toBe('/a~1b/c~0d')
+  })
+})
+
+describe('parseJson limits', () => {
+  function limitError(text: string, options: Parameters<typeof parseJson>[1]): LimitExceededError {
+    try {
+      parseJson(text, options)
+    } catch (error) {
+      if (error instanceof LimitExceededError) return error
+      throw error
+    }
+    throw new Error(`Expected ${text} to exceed a limit`)
+  }
+
+  it('stops at maxDepth before reading the rest of the input', () => {
+    const depth = 1_000_000
+    const error = limitError('['.repeat(depth), { maxDepth: 10 })
+    expect(error.limit).toBe('maxDepth')
+    expect(error.max).toBe(10)
+    expect(error.position).toBe(11)
+    expect(error.path).toBe('[0][0][0][0][0][0][0][0][0][0][0]')
+  })
+
+  it('counts depth the same way for objects and primitives', () => {
+    expect(parseJson('{"a":{"b":{"c":1}}}', { maxDepth: 3 })).toEqual({ a: { b: { c: 1 } } })
+    expect(limitError('{"a":{"b":{"c":1}}}', { maxDepth: 2 }).path).toBe('a.b.c')
+  })
+
+  it('enforces maxKeys per object', () => {
+    expect(parseJson('{"a":{"x":1,"y":2},"b":1}', { maxKeys: 2 })).toEqual({ a: { x: 1, y: 2 }, b: 1 })
+    const error = limitError('{"a":1,"b":2,"c":3}', { maxKeys: 2 })
+    expect(error.limit).toBe('maxKeys')
+    expect(error.position).toBe(13)
+    expect(error.message).toBe('Maximum of 2 keys per object exceeded')
+  })
+
+  it('enforces maxArrayLength', () => {
+    expect(parseJson('[[1,2],[3]]', { maxArrayLength: 2 })).toEqual([[1, 2], [3]])
+    const error = limitError('{"items":[1,2,3]}', { maxArrayLength: 2 })
+    expect(error.limit).toBe('maxArrayLength')
+    expect(error.path).toBe('items[2]')
+  })
+
+  it('enforces maxStringLength for values and keys', () => {
+    expect(parseJson('{"ab":"cd"}', { maxStringLength: 2 })).toEqual({ ab: 'cd' })
+    expect(limitError('{"a":"abc"}', { maxStringLength: 2 }).path).toBe('a')
+    expect(limitError('{"abc":1}', { maxStringLength: 2 }).limit).toBe('maxStringLength')
+  })
+
+  it('enforces maxTotalNodes', () => {
+    expect(parseJson('{"a":[1,2]}', { maxTotalNodes: 4 })).toEqual({ a: [1, 2] })
+    const error = limitError('{"a":[1,2,3]}', { maxTotalNodes: 4 })
+    expect(error.limit).toBe('maxTotalNodes')
+    expect(error.position).toBe(10)
+  })
+})
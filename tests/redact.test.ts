@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import { createHash } from 'node:crypto'
+import { stringify, format } from '../src/index'
+import { sha256 } from '../src/hash'
+
+describe('stringify redact option', () => {
+  const user = { name: 'Ann', password: 'hunter22', Token: 'abc', profile: { apiKey: 'k-123' } }
+
+  it('redacts keys by name, ignoring case', () => {
+    expect(stringify(user, { redact: ['password', 'token'] }))
+      .toBe('{"name":"Ann","password":"[REDACTED]","Token":"[REDACTED]","profile":{"apiKey":"k-123"}}')
+  })
+
+  it('redacts keys matching a pattern at any depth', () => {
+    expect(stringify(user, { redact: [/key$/i] }))
+      .toBe('{"name":"Ann","password":"hunter22","Token":"abc","profile":{"apiKey":"[REDACTED]"}}')
+  })
+
+  it('matches every key with global and sticky patterns', () => {
+    const data = { token: 'a', token2: 'b', xtoken: 'c' }
+    const expected = '{"token":"[REDACTED]","token2":"[REDACTED]","xtoken":"[REDACTED]"}'
+    const global = /token/gi
+    expect(stringify(data, { redact: [global] })).toBe(expected)
+    expect(stringify(data, { redact: [global] })).toBe(expected)
+    expect(global.lastIndex).toBe(0)
+    expect(stringify(data, { redact: [/token/y] }))
+      .toBe('{"token":"[REDACTED]","token2":"[REDACTED]","xtoken":"c"}')
+  })
+
+  it('redacts JSON Pointer paths with wildcards', () => {
+    const data = { users: [{ ssn: '1' }, { ssn: '2' }], ssn: 'kept' }
+    expect(stringify(data, { redact: ['/users/*/ssn'] }))
+      .toBe('{"users":[{"ssn":"[REDACTED]"},{"ssn":"[REDACTED]"}],"ssn":"kept"}')
+    expect(stringify(data, { redact: ['/users/1'] }))
+      .toBe('{"users":[{"ssn":"1"},"[REDACTED]"],"ssn":"kept"}')
+  })
+
+  it('does not match array indexes by key name', () => {
+    expect(stringify({ list: ['a', 'b'] }, { redact: ['0', /\d/] })).toBe('{"list":["a","b"]}')
+  })
+
+  it('redacts values chosen by a predicate', () => {
+    const redact = [(_key: string, value: unknown) => typeof value === 'string' && value.startsWith('sk_')]
+    expect(stringify({ a: 'sk_live_1', b: 'pk_1' }, { redact })).toBe('{"a":"[REDACTED]","b":"pk_1"}')
+  })
+
+  it('passes the path context to predicates', () => {
+    const pointers: string[] = []
+    stringify({ a: [1] }, { redact: [(_key, _value, context) => { pointers.push(context.pointer); return false }] })
+    expect(pointers).toEqual(['', '/a', '/a/0'])
+  })
+
+  it('replaces whole objects', () => {
+    expect(stringify({ auth: { user: 'a', pass: 'b' } }, { redact: ['auth'] })).toBe('{"auth":"[REDACTED]"}')
+  })
+
+  it('leaves undefined values out', () => {
+    expect(stringify({ password: undefined }, { redact: ['password'] })).toBe('{}')
+  })
+
+  it('uses a fixed replacement string', () => {
+    expect(stringify({ password: 'x' }, { redact: { match: ['password'], replacement: '***' } }))
+      .toBe('{"password":"***"}')
+  })
+
+  it('masks all but the last characters', () => {
+    const redact = { match: ['card'], replacement: { type: 'mask' as const } }
+    expect(stringify({ card: '4111111111111111' }, { redact })).toBe('{"card":"************1111"}')
+    expect(stringify({ card: 12345678 }, { redact })).toBe('{"card":"****5678"}')
+    expect(stringify({ card: 'abc' }, { redact })).toBe('{"card":"***"}')
+    expect(stringify({ card: { n: 1 } }, { redact })).toBe('{"card":"[REDACTED]"}')
+  })
+
+  it('masks with custom visible length and character', () => {
+    const redact = { match: ['phone'], replacement: { type: 'mask' as const, visible: 2, char: '#' } }
+    expect(stringify({ phone: '5550123' }, { redact })).toBe('{"phone":"#####23"}')
+  })
+
+  it('hashes values so equal ones can be matched up', () => {
+    const redact = { match: ['email'], replacement: { type: 'hash' as const } }
+    const expected = 'sha256:' + createHash('sha256').update('a@b.c').digest('hex').slice(0, 16)
+    expect(stringify([{ email: 'a@b.c' }, { email: 'a@b.c' }], { redact }))
+      .toBe(`[{"email":"${expected}"},{"email":"${expected}"}]`)
+  })
+
+  it('salts hashes', () => {
+    const salted = { match: ['email'], replacement: { type: 'hash' as const, salt: 's' } }
+    const expected = 'sha256:' + createHash('sha256').update('sa@b.c').digest('hex').slice(0, 16)
+    expect(stringify({ email: 'a@b.c' }, { redact: salted })).toBe(`{"email":"${expected}"}`)
+  })
+
+  it('calls a replacement function with the value and context', () => {
+    const redact = {
+      match: ['secret'],
+      replacement: (value: unknown, context: { pointer: string }) => `${context.pointer}:${String(value).length}`
+    }
+    expect(stringify({ secret: 'abcd' }, { redact })).toBe('{"secret":"/secret:4"}')
+  })
+
+  it('works inside cyclic structures', () => {
+    const node: Record<string, unknown> = { password: 'x' }
+    node.self = node
+    expect(stringify(node, { redact: ['password'] })).toBe('{"password":"[REDACTED]","self":"[Circular]"}')
+    expect(stringify(node, { redact: ['password'], references: 'pointer' }))
+      .toBe('{"password":"[REDACTED]","self":{"$ref":"#"}}')
+  })
+
+  it('redacts what a user replacer returns', () => {
+    const replacer = (key: string, value: unknown) => key === 'credentials' ? { password: 'x' } : value
+    expect(stringify({ credentials: 'raw' }, { replacer, redact: ['password'] }))
+      .toBe('{"credentials":{"password":"[REDACTED]"}}')
+  })
+
+  it('keeps values a user replacer dropped', () => {
+    const replacer = (key: string, value: unknown) => key === 'password' ? undefined : value
+    expect(stringify({ password: 'x', a: 1 }, { replacer, redact: ['password'] })).toBe('{"a":1}')
+  })
+
+  it('redacts in format', () => {
+    expect(format('{"password":"x"}', { space: 0, redact: ['password'] })).toBe('{"password":"[REDACTED]"}')
+    expect(format({ password: 'x' }, { redact: ['password'] })).toBe('{\n  "password": "[REDACTED]"\n}')
+  })
+})
+
+describe('sha256', () => {
+  it('matches node:crypto across block boundaries and UTF-8', () => {
+    for (const text of ['', 'abc', 'a'.repeat(55), 'a'.repeat(56), 'a'.repeat(64), 'héllo 😀']) {
+      expect(sha256(text)).toBe(createHash('sha256').update(text).digest('hex'))
+    }
+  })
+})
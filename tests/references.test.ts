@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { parse, stringify, tryStringify } from '../src/index'
+import { resolveReferences } from '../src/references'
+
+type Node = { id: number, next?: Node, children?: Node[] }
+
+describe('stringify references option', () => {
+  const shared = { id: 1 }
+
+  it('writes shared references in full by default', () => {
+    expect(stringify({ a: shared, b: shared, list: [shared] })).toBe('{"a":{"id":1},"b":{"id":1},"list":[{"id":1}]}')
+  })
+
+  it('replaces only true cycles with a placeholder', () => {
+    const node: Node = { id: 1 }
+    node.children = [{ id: 2, next: node }, { id: 3 }]
+    expect(stringify(node, { references: 'placeholder' }))
+      .toBe('{"id":1,"children":[{"id":2,"next":"[Circular]"},{"id":3}]}')
+  })
+
+  it('writes pointers for shared and circular references', () => {
+    const root: Record<string, unknown> = { a: shared, b: { c: shared } }
+    root.self = root
+    expect(stringify(root, { references: 'pointer' }))
+      .toBe('{"a":{"id":1},"b":{"c":{"$ref":"#/a"}},"self":{"$ref":"#"}}')
+  })
+
+  it('escapes pointer segments', () => {
+    expect(stringify({ 'a/b': shared, 'c~d': shared }, { references: 'pointer' }))
+      .toBe('{"a/b":{"id":1},"c~d":{"$ref":"#/a~1b"}}')
+  })
+
+  it('fails on cycles in duplicate mode', () => {
+    const node: Node = { id: 1 }
+    node.children = [{ id: 2, next: node }]
+    const [result, error] = tryStringify(node, { references: 'duplicate' })
+    expect(result).toBe(null)
+    expect(error?.code).toBe('CIRCULAR')
+    expect(error?.path).toBe('children[0].next')
+    expect(stringify({ a: shared, b: shared }, { references: 'duplicate' })).toBe('{"a":{"id":1},"b":{"id":1}}')
+  })
+
+  it('detects cycles through replaced values', () => {
+    const node: Node = { id: 1 }
+    node.next = node
+    const result = stringify(node, { replacer: (_key, value) => value })
+    expect(result).toBe('{"id":1,"next":"[Circular]"}')
+  })
+})
+
+describe('parse references option', () => {
+  it('rebuilds shared and circular references', () => {
+    const shared = { id: 1 }
+    const root: Record<string, unknown> = { a: shared, list: [shared] }
+    root.self = root
+    const result = parse<Record<string, unknown>>(stringify(root, { references: 'pointer' }) ?? '', { references: 'pointer' })
+    expect(result?.a).toEqual({ id: 1 })
+    expect((result?.list as unknown[])[0]).toBe(result?.a)
+    expect(result?.self).toBe(result)
+  })
+
+  it('leaves pointers alone unless enabled', () => {
+    expect(parse('{"a":{},"b":{"$ref":"#/a"}}')).toEqual({ a: {}, b: { $ref: '#/a' } })
+  })
+
+  it('runs revivers once per object on the rebuilt graph', () => {
+    const calls: string[] = []
+    const result = parse<{ a: { at: Date }, b: { at: Date } }>(
+      '{"a":{"at":"2023-01-01T10:00:00Z"},"b":{"$ref":"#/a"}}',
+      {
+        references: 'pointer',
+        dates: true,
+        reviver: (key, value) => {
+          calls.push(key)
+          return value
+        }
+      }
+    )
+    expect(result?.a.at).toBeInstanceOf(Date)
+    expect(result?.b).toBe(result?.a)
+    expect(calls).toEqual(['at', 'a', ''])
+  })
+
+  it('round-trips shared values inside tagged types', () => {
+    const shared = { id: 1 }
+    const map = new Map([['x', shared]])
+    const json = stringify({ map, again: map, item: shared }, { references: 'pointer', types: true }) ?? ''
+    const result = parse<{ map: Map<string, unknown>, again: unknown, item: unknown }>(json, { references: 'pointer', types: true })
+    expect(result?.map).toBeInstanceOf(Map)
+    expect(result?.again).toBe(result?.map)
+    expect(result?.map.get('x')).toBe(result?.item)
+  })
+
+  it('does not resolve pointers to keys removed by safeKeys', () => {
+    const result = parse('{"__proto__":{"x":1},"b":{"$ref":"#/__proto__"}}', {
+      references: 'pointer',
+      safeKeys: { action: 'strip' }
+    })
+    expect(result).toEqual({ b: { $ref: '#/__proto__' } })
+  })
+})
+
+describe('resolveReferences', () => {
+  it('resolves pointers into arrays', () => {
+    const value = { list: [{ id: 1 }], first: { $ref: '#/list/0' } }
+    const result = resolveReferences(value)
+    expect(result.first).toBe(result.list[0])
+  })
+
+  it('leaves unresolvable or non-pointer references alone', () => {
+    const value = { a: { $ref: '#/missing' }, b: { $ref: 'http://example.com' }, c: { $ref: '#/a', extra: 1 } }
+    expect(resolveReferences(value)).toEqual({
+      a: { $ref: '#/missing' },
+      b: { $ref: 'http://example.com' },
+      c: { $ref: '#/a', extra: 1 }
+    })
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { repair } from '../src/repair'
+
+function repaired(text: string): unknown {
+  return JSON.parse(repair(text).text)
+}
+
+describe('repair', () => {
+  it('leaves valid JSON untouched', () => {
+    const json = '{\n  "a": [1, 2.5, -3e2],\n  "b": {"c": null, "d": true}\n}'
+    expect(repair(json)).toEqual({ text: json, edits: [] })
+  })
+
+  it('closes unclosed brackets and strings', () => {
+    expect(repaired('{"name": "Jo')).toEqual({ name: 'Jo' })
+    expect(repaired('{"a": [1, 2, {"b": 3')).toEqual({ a: [1, 2, { b: 3 }] })
+  })
+
+  it('completes truncated properties', () => {
+    expect(repaired('{"a": 1, "b":')).toEqual({ a: 1, b: null })
+    expect(repaired('{"a": 1, "b"')).toEqual({ a: 1, b: null })
+    expect(repaired('{"a": 1,')).toEqual({ a: 1 })
+  })
+
+  it('removes trailing commas', () => {
+    const result = repair('{"a": [1, 2,],}')
+    expect(JSON.parse(result.text)).toEqual({ a: [1, 2] })
+    expect(result.edits).toEqual([
+      { position: 11, removed: ',', inserted: '', description: 'Removed trailing comma' },
+      { position: 13, removed: ',', inserted: '', description: 'Removed trailing comma' }
+    ])
+  })
+
+  it('converts single quotes and quotes unquoted keys', () => {
+    expect(repaired("{name: 'John', 'it\\'s': 'say \"hi\"'}")).toEqual({ name: 'John', "it's": 'say "hi"' })
+  })
+
+  it('replaces Python and JavaScript literals', () => {
+    expect(repaired('{"a": True, "b": False, "c": None, "d": undefined, "e": NaN}')).toEqual({
+      a: true, b: false, c: null, d: null, e: null
+    })
+  })
+
+  it('strips markdown code fences', () => {
+    const result = repair('```json\n{"a": 1}\n```')
+    expect(JSON.parse(result.text)).toEqual({ a: 1 })
+    expect(result.edits.map(e => e.description)).toEqual(['Removed markdown code fence', 'Removed markdown code fence'])
+  })
+
+  it('strips a closing fence after a value cut short', () => {
+    const result = repair('```json\n{"a": [1\n```\nDone.')
+    expect(JSON.parse(result.text)).toEqual({ a: [1] })
+    expect(result.edits.map(e => e.description)).toEqual([
+      'Removed markdown code fence', 'Removed markdown code fence', "Closed unclosed '['", "Closed unclosed '{'"
+    ])
+  })
+
+  it('strips surrounding prose', () => {
+    expect(repaired('Sure! Here it is: [1, 2] Let me know if you need more.')).toEqual([1, 2])
+  })
+
+  it('inserts missing commas and colons after the previous token', () => {
+    const result = repair('{"a" 1 "b": 2}')
+    expect(result.text).toBe('{"a": 1, "b": 2}')
+    expect(result.edits).toEqual([
+      { position: 4, removed: '', inserted: ':', description: 'Inserted missing colon' },
+      { position: 6, removed: '', inserted: ',', description: 'Inserted missing comma' }
+    ])
+  })
+
+  it('removes comments', () => {
+    expect(repaired('{"a": 1, // note\n /* b */ "b": 2}')).toEqual({ a: 1, b: 2 })
+  })
+
+  it('escapes raw control characters in strings', () => {
+    expect(repaired('{"text": "line1\nline2\ttab"}')).toEqual({ text: 'line1\nline2\ttab' })
+  })
+
+  it('escapes backslashes that start no JSON escape', () => {
+    expect(repaired('{"path": "C:\\dir\\new\\x41.txt"}')).toEqual({ path: 'C:\\dir\new\\x41.txt' })
+    expect(repaired('["\\x41", "\\u00e9", "\\u00z"]')).toEqual(['\\x41', 'é', '\\u00z'])
+    expect(repaired("['a\\\nb']")).toEqual(['a\\\nb'])
+
+    const result = repair('["a\\d"]')
+    expect(result.edits).toEqual([
+      { position: 1, removed: '"a\\d"', inserted: '"a\\\\d"', description: 'Escaped stray backslashes' }
+    ])
+  })
+
+  it('fixes near-miss numbers', () => {
+    expect(repaired('[+1, .5, 2., 007]')).toEqual([1, 0.5, 2, 7])
+  })
+
+  it('replaces mismatched closers', () => {
+    expect(repaired('[1, 2}')).toEqual([1, 2])
+    expect(repaired('{"a": [1}')).toEqual({ a: [1] })
+  })
+
+  it('stays fast on deep nesting', () => {
+    const started = performance.now()
+    expect(repair('['.repeat(20_000) + ']'.repeat(20_000)).edits).toEqual([])
+    expect(repair('['.repeat(20_000) + '}'.repeat(20_000)).text).toBe('['.repeat(20_000) + ']'.repeat(20_000))
+    expect(repair('{"a":['.repeat(10_000) + ']'.repeat(10_000)).edits).toHaveLength(10_000)
+    expect(performance.now() - started).toBeLessThan(1000)
+  })
+
+  it('reports edits in source order with positions', () => {
+    const result = repair("{'a': True,")
+    expect(result.edits.map(e => [e.position, e.description])).toEqual([
+      [1, 'Replaced single quotes'],
+      [6, "Replaced 'True'"],
+      [10, 'Removed trailing comma'],
+      [11, "Closed unclosed '{'"]
+    ])
+  })
+})
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest'
-import { parseStream } from '../src/stream'
+import { parseStream, stringifyStream, stringifyChunks } from '../src/stream'
+import { stringify, HandleJsonError } from '../src/index'
+import type { StringifyStreamOptions } from '../src/types'
 
 describe('parseStream', () => {
   it('parses string input', async () => {
@@ -235,3 +237,180 @@ describe('parseStream', () => {
   })
 })
 
+
+async function collect(value: unknown, options?: StringifyStreamOptions): Promise<string> {
+  let text = ''
+  for await (const chunk of stringifyChunks(value, options)) text += chunk
+  return text
+}
+
+async function* rows(count: number) {
+  for (let i = 0; i < count; i++) yield { id: i, at: new Date(i) }
+}
+
+describe('stringifyChunks', () => {
+  it('matches stringify', async () => {
+    const circular: Record<string, unknown> = { a: 1, list: [1, undefined, () => 1, { b: new Date(0) }] }
+    circular.self = circular
+    const cases: Array<[unknown, StringifyStreamOptions | undefined]> = [
+      [circular, undefined],
+      [circular, { space: 2 }],
+      [circular, { space: '\t', dates: 'timestamp' }],
+      [{ n: 10n, m: -5n }, { bigint: 'literal' }],
+      [{ n: 10n }, undefined],
+      [{ b: 1, a: { z: [], y: {} } }, { canonical: true }],
+      [{ b: 1, '10': { '9': 1, '\r': [] }, '9': 2 }, { canonical: true }],
+      [{ m: new Map([[1, 2]]) }, { types: true }],
+      [{ a: { toJSON: () => 'j' }, u: undefined, e: {}, f: [] }, { space: 2 }],
+      [[NaN, Infinity, -0, 'str', null, true], undefined],
+      [{ a: 1, b: 'x' }, { replacer: (key, value) => key === 'b' ? undefined : value }],
+      [{ a: -0, b: [NaN, undefined], c: undefined }, { negativeZero: 'preserve', nonFinite: 'string', undefinedValues: 'null' }],
+      ['str', undefined]
+    ]
+    for (const [value, options] of cases) {
+      expect(await collect(value, options)).toBe(stringify(value, options))
+    }
+  })
+
+  it('sorts integer-like keys as strings in canonical output', async () => {
+    expect(await collect({ b: 1, '10': 2, '9': 3 }, { canonical: true, chunkSize: 1 })).toBe('{"10":2,"9":3,"b":1}')
+  })
+
+  it('writes shared references as pointers', async () => {
+    const shared = { x: 1 }
+    expect(await collect({ a: shared, b: shared }, { references: 'pointer' }))
+      .toBe('{"a":{"x":1},"b":{"$ref":"#/a"}}')
+  })
+
+  it('writes async iterables as arrays', async () => {
+    expect(await collect({ rows: rows(2), empty: rows(0) }, { dates: 'timestamp' }))
+      .toBe('{"rows":[{"id":0,"at":0},{"id":1,"at":1}],"empty":[]}')
+    expect(await collect(rows(1), { space: 2 })).toBe('[\n  {\n    "id": 0,\n    "at": "1970-01-01T00:00:00.000Z"\n  }\n]')
+  })
+
+  it('gives async iterable items their paths', async () => {
+    const pointers: string[] = []
+    await collect({ rows: rows(2) }, {
+      pathReplacer: (_key, value, context) => {
+        pointers.push(context.pointer)
+        return value
+      }
+    })
+    expect(pointers).toEqual(['', '/rows', '/rows/0', '/rows/0/id', '/rows/0/at', '/rows/1', '/rows/1/id', '/rows/1/at'])
+  })
+
+  it('detects cycles through async iterables', async () => {
+    const node: Record<string, unknown> = { name: 'n' }
+    node.items = (async function* () { yield node; yield 1 })()
+    expect(await collect(node)).toBe('{"name":"n","items":["[Circular]",1]}')
+  })
+
+  it('emits chunks of about chunkSize', async () => {
+    const chunks: string[] = []
+    for await (const chunk of stringifyChunks({ rows: rows(100) }, { chunkSize: 200 })) chunks.push(chunk)
+    expect(chunks.length).toBeGreaterThan(10)
+    expect(JSON.parse(chunks.join('')).rows).toHaveLength(100)
+  })
+
+  it('throws HandleJsonError on failure', async () => {
+    const node: Record<string, unknown> = {}
+    node.self = node
+    await expect(collect(node, { references: 'duplicate' })).rejects.toMatchObject({ code: 'CIRCULAR' })
+    await expect(collect({ toJSON: () => { throw new Error('boom') } })).rejects.toBeInstanceOf(HandleJsonError)
+  })
+
+  it('stops the source when the consumer stops', async () => {
+    let closed = false
+    const source = (async function* () {
+      try {
+        while (true) yield 'x'.repeat(100)
+      } finally {
+        closed = true
+      }
+    })()
+    for await (const chunk of stringifyChunks(source, { chunkSize: 100 })) {
+      expect(chunk.length).toBeGreaterThan(0)
+      break
+    }
+    await Promise.resolve()
+    expect(closed).toBe(true)
+  })
+})
+
+function failingSource(close: () => Promise<IteratorResult<unknown>>): AsyncIterable<unknown> {
+  return {
+    [Symbol.asyncIterator]: () => ({
+      next: async () => ({ done: false, value: 'x'.repeat(100) }),
+      return: close
+    })
+  }
+}
+
+async function unhandledRejections(run: () => Promise<void>): Promise<unknown[]> {
+  const reasons: unknown[] = []
+  const listener = (reason: unknown) => reasons.push(reason)
+  process.on('unhandledRejection', listener)
+  try {
+    await run()
+    await new Promise(resolve => setTimeout(resolve, 10))
+  } finally {
+    process.off('unhandledRejection', listener)
+  }
+  return reasons
+}
+
+describe('stopping a source that fails to close', () => {
+  const closers: Array<[string, () => Promise<IteratorResult<unknown>>]> = [
+    ['rejects', () => Promise.reject(new Error('close failed'))],
+    ['throws', () => { throw new Error('close failed') }]
+  ]
+
+  for (const [name, close] of closers) {
+    it(`ignores a return() that ${name} when the consumer breaks`, async () => {
+      const reasons = await unhandledRejections(async () => {
+        for await (const chunk of stringifyChunks(failingSource(close), { chunkSize: 100 })) {
+          expect(chunk.length).toBeGreaterThan(0)
+          break
+        }
+      })
+      expect(reasons).toEqual([])
+    })
+
+    it(`ignores a return() that ${name} when the stream is cancelled`, async () => {
+      const reasons = await unhandledRejections(async () => {
+        const reader = stringifyStream(failingSource(close), { chunkSize: 100 }).getReader()
+        await reader.read()
+        await reader.cancel()
+      })
+      expect(reasons).toEqual([])
+    })
+  }
+})
+
+describe('stringifyStream', () => {
+  it('streams UTF-8 bytes', async () => {
+    const stream = stringifyStream({ rows: rows(3), emoji: '😀' }, { chunkSize: 16 })
+    const reader = stream.getReader()
+    const decoder = new TextDecoder()
+    let text = ''
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      text += decoder.decode(value, { stream: true })
+    }
+    expect(JSON.parse(text)).toEqual({
+      rows: [0, 1, 2].map(id => ({ id, at: new Date(id).toISOString() })),
+      emoji: '😀'
+    })
+  })
+
+  it('round trips through parseStream', async () => {
+    const result = await parseStream(stringifyStream({ a: [1, 2, 3] }))
+    expect(result.data).toEqual({ a: [1, 2, 3] })
+  })
+
+  it('errors the stream on failure', async () => {
+    const reader = stringifyStream({ toJSON: () => { throw new Error('boom') } }).getReader()
+    await expect(reader.read()).rejects.toMatchObject({ code: 'STRINGIFY' })
+  })
+})
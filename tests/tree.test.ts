@@ -0,0 +1,231 @@
+import { describe, it, expect } from 'vitest'
+import { parseTree, modify, remove, applyEdits, format, parse, HandleJsonError } from '../src/index'
+
+const config = [
+  '{',
+  '  // compiler settings',
+  '  "compilerOptions": {',
+  '    "strict": true, // keep on',
+  '    "target": "es2020"',
+  '  },',
+  '  "include": ["src"], /* sources */',
+  '  "files": [',
+  '    "a.ts",',
+  '    "b.ts" // last',
+  '  ]',
+  '}',
+  ''
+].join('\n')
+
+function edit(text: string, pointer: string, value: unknown): string {
+  return applyEdits(text, modify(text, pointer, value))
+}
+
+describe('parseTree', () => {
+  it('records offsets and values', () => {
+    const root = parseTree('{"a": [1, "x"]}')
+    expect(root).toMatchObject({ type: 'object', offset: 0, length: 15 })
+
+    const property = root.children![0]
+    expect(property).toMatchObject({ type: 'property', offset: 1, length: 13, colonOffset: 4 })
+    expect(property.parent).toBe(root)
+
+    const [key, list] = property.children!
+    expect(key).toMatchObject({ type: 'string', value: 'a', offset: 1, length: 3 })
+    expect(list.children!.map(node => [node.type, node.value, node.offset])).toEqual([['number', 1, 7], ['string', 'x', 10]])
+    expect(list.parent).toBe(property)
+  })
+
+  it('accepts comments and trailing commas', () => {
+    const root = parseTree('/* a */ [1, // one\n 2,]')
+    expect(root.children!.map(node => node.value)).toEqual([1, 2])
+    expect(root.offset).toBe(8)
+  })
+
+  it('reads json5 when asked', () => {
+    const root = parseTree("{key: 'v', n: +Infinity}", { syntax: 'json5' })
+    expect(root.children!.map(property => property.children![0].value)).toEqual(['key', 'n'])
+    expect(root.children![1].children![1].value).toBe(Infinity)
+  })
+
+  it('throws a syntax error with the position', () => {
+    expect(() => parseTree('{"a": 1,}', { syntax: 'json' })).toThrow(HandleJsonError)
+    try {
+      parseTree('[1 2]')
+    } catch (error) {
+      expect(error).toMatchObject({ code: 'SYNTAX', position: 3 })
+    }
+  })
+})
+
+describe('modify', () => {
+  it('replaces a value and nothing else', () => {
+    const edits = modify(config, '/compilerOptions/target', 'es2022')
+    expect(edits).toEqual([{ offset: config.indexOf('"es2020"'), length: 8, content: '"es2022"' }])
+    expect(applyEdits(config, edits)).toBe(config.replace('es2020', 'es2022'))
+  })
+
+  it('adds a property after the last one, keeping its comment', () => {
+    expect(edit(config, '/compilerOptions/module', 'esnext')).toBe(
+      config.replace('"target": "es2020"\n', '"target": "es2020",\n    "module": "esnext"\n')
+    )
+    expect(edit(config, '/files/-', 'c.ts')).toBe(config.replace('"b.ts" // last\n', '"b.ts", // last\n    "c.ts"\n'))
+  })
+
+  it('appends inline to single-line containers', () => {
+    expect(edit(config, '/include/1', 'test')).toContain('"include": ["src", "test"], /* sources */')
+    expect(edit('{"a":1}', '/b', [true])).toBe('{"a":1,"b":[true]}')
+  })
+
+  it('keeps a trailing comma at the end', () => {
+    expect(edit('{\n  "a": 1,\n}', '/b', 2)).toBe('{\n  "a": 1,\n  "b": 2,\n}')
+  })
+
+  it('creates missing parents as objects', () => {
+    expect(edit('{\n  "a": 1\n}', '/b/c', { d: [1] })).toBe(
+      '{\n  "a": 1,\n  "b": {\n    "c": {\n      "d": [\n        1\n      ]\n    }\n  }\n}'
+    )
+  })
+
+  it('creates a missing array to append to', () => {
+    expect(edit('{"a": 1}', '/list/-', 'x')).toBe('{"a": 1, "list": ["x"]}')
+  })
+
+  it('fills empty containers', () => {
+    expect(edit('{\n  "a": {}\n}', '/a/b', 1)).toBe('{\n  "a": {\n    "b": 1\n  }\n}')
+    expect(edit('[]', '/-', 'x')).toBe('["x"]')
+  })
+
+  it('follows the document indent and line endings', () => {
+    expect(edit('{\r\n\t"a": 1\r\n}', '/b', { c: 2 })).toBe('{\r\n\t"a": 1,\r\n\t"b": {\r\n\t\t"c": 2\r\n\t}\r\n}')
+    expect(applyEdits('{\n  "a": 1\n}', modify('{\n  "a": 1\n}', '/b', [2], { space: 4 })))
+      .toBe('{\n  "a": 1,\n  "b": [\n      2\n  ]\n}')
+  })
+
+  it('replaces the root with an empty pointer', () => {
+    expect(edit('// doc\n[1]', '', { a: 1 })).toBe('// doc\n{\n  "a": 1\n}')
+  })
+
+  it('escapes keys and unescapes pointer segments', () => {
+    expect(edit('{}', '/a~1b', 1)).toBe('{"a/b":1}')
+    expect(edit('{"a/b": 1}', '/a~1b', 2)).toBe('{"a/b": 2}')
+  })
+
+  it('removes the value when it is undefined', () => {
+    expect(edit('{"a": 1, "b": 2}', '/a', undefined)).toBe('{"b": 2}')
+  })
+
+  it('throws for paths it cannot reach', () => {
+    expect(() => modify('{"a": 1}', '/a/b', 2)).toThrow(`'/a' is not an object or array`)
+    expect(() => modify('[1]', '/5', 2)).toThrow('index 5 is out of range')
+    expect(() => modify('{}', 'a', 1)).toThrow(`Invalid JSON Pointer 'a'`)
+    expect(() => modify('{', '/a', 1)).toThrow(HandleJsonError)
+  })
+})
+
+describe('remove', () => {
+  it('removes a line with its comma and comment', () => {
+    expect(applyEdits(config, remove(config, '/compilerOptions/strict'))).toBe(config.replace('    "strict": true, // keep on\n', ''))
+  })
+
+  it('removes the comma before the last member', () => {
+    expect(applyEdits(config, remove(config, '/compilerOptions/target'))).toBe(
+      config.replace('"strict": true, // keep on\n    "target": "es2020"', '"strict": true // keep on')
+    )
+    expect(applyEdits(config, remove(config, '/files'))).toBe(config.replace(
+      '"include": ["src"], /* sources */\n  "files": [\n    "a.ts",\n    "b.ts" // last\n  ]',
+      '"include": ["src"] /* sources */'
+    ))
+  })
+
+  it('removes inline members', () => {
+    expect(applyEdits('[1, 2, 3]', remove('[1, 2, 3]', '/1'))).toBe('[1, 3]')
+    expect(applyEdits('[1, 2, 3]', remove('[1, 2, 3]', '/2'))).toBe('[1, 2]')
+    expect(applyEdits(config, remove(config, '/include/0'))).toContain('"include": [], /* sources */')
+  })
+
+  it('keeps comments before an inline last member', () => {
+    const text = '[1, /* keep */ 2]'
+    expect(applyEdits(text, remove(text, '/1'))).toBe('[1 /* keep */]')
+  })
+
+  it('leaves nothing dangling after a trailing comma', () => {
+    const text = '{"a": 1, "b": 2,}'
+    expect(applyEdits(text, remove(text, '/b'))).toBe('{"a": 1,}')
+    expect(applyEdits(text, remove(text, '/a'))).toBe('{"b": 2,}')
+    expect(applyEdits('[1,]', remove('[1,]', '/0'))).toBe('[]')
+  })
+
+  it('keeps comments when removing the only member', () => {
+    const text = '{\n  // note\n  "a": 1\n}'
+    expect(applyEdits(text, remove(text, '/a'))).toBe('{\n  // note\n}')
+  })
+
+  it('returns no edits for a missing value', () => {
+    expect(remove(config, '/nope')).toEqual([])
+    expect(remove(config, '/files/9')).toEqual([])
+  })
+
+  it('refuses to remove the root', () => {
+    expect(() => remove('{}', '')).toThrow('Cannot remove the root value')
+  })
+
+  it('leaves parseable output', () => {
+    let text = config
+    for (const pointer of ['/files/0', '/compilerOptions/strict', '/include', '/files', '/compilerOptions']) {
+      text = applyEdits(text, remove(text, pointer))
+      expect(parse(text, { syntax: 'jsonc' })).not.toBeNull()
+    }
+    expect(text).toBe('{\n  // compiler settings\n}\n')
+  })
+})
+
+describe('format with comments', () => {
+  it('reindents jsonc and keeps comments', () => {
+    const text = '{"a":1,// one\n"b":[],/* two */ "c":{"d":[1,2,]}}'
+    expect(format(text, { syntax: 'jsonc' })).toBe([
+      '{',
+      '  "a": 1, // one',
+      '  "b": [], /* two */',
+      '  "c": {',
+      '    "d": [',
+      '      1,',
+      '      2,',
+      '    ]',
+      '  }',
+      '}'
+    ].join('\n'))
+  })
+
+  it('puts own-line comments on their own line', () => {
+    expect(format(config, { syntax: 'jsonc', space: 4 })).toBe([
+      '{',
+      '    // compiler settings',
+      '    "compilerOptions": {',
+      '        "strict": true, // keep on',
+      '        "target": "es2020"',
+      '    },',
+      '    "include": [',
+      '        "src"',
+      '    ], /* sources */',
+      '    "files": [',
+      '        "a.ts",',
+      '        "b.ts" // last',
+      '    ]',
+      '}'
+    ].join('\n'))
+  })
+
+  it('keeps json5 values as written', () => {
+    expect(format("{a: 0x1F, b: 'x', // c\n}", { syntax: 'json5', eol: '\r\n', trailingNewline: true }))
+      .toBe("{\r\n  a: 0x1F,\r\n  b: 'x', // c\r\n}\r\n")
+  })
+
+  it('returns null for invalid input', () => {
+    expect(format('{"a": }', { syntax: 'jsonc' })).toBeNull()
+  })
+
+  it('drops comments when the data has to be rebuilt', () => {
+    expect(format('{"b": 1, /* x */ "a": 2}', { syntax: 'jsonc', sortKeys: true })).toBe('{\n  "a": 2,\n  "b": 1\n}')
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { stringify, tryStringify, parse } from '../src/index'
+import { truncateOutput, truncateString } from '../src/truncate'
+
+const users = Array.from({ length: 1000 }, (_, i) => ({ id: i, name: `user${i}`, tags: ['a', 'b'] }))
+
+describe('stringify truncation limits', () => {
+  it('replaces containers deeper than maxDepth', () => {
+    expect(stringify({ a: { b: { c: 1 } }, list: [[1]] }, { maxDepth: 1 }))
+      .toBe('{"a":{"b":"[Object]"},"list":["[Array]"]}')
+    expect(stringify({ a: {} }, { maxDepth: 0 })).toBe('{"a":"[Object]"}')
+  })
+
+  it('keeps the first maxArrayLength items', () => {
+    expect(stringify({ users }, { maxArrayLength: 2, maxDepth: 1 }))
+      .toBe('{"users":["[Object]","[Object]","... 998 more items"]}')
+    expect(stringify([1, 2, 3], { maxArrayLength: 2 })).toBe('[1,2,"... 1 more item"]')
+    expect(stringify([1, 2], { maxArrayLength: 2 })).toBe('[1,2]')
+  })
+
+  it('shortens strings longer than maxStringLength', () => {
+    expect(stringify({ note: 'x'.repeat(100) }, { maxStringLength: 5 }))
+      .toBe('{"note":"xxxxx... 95 more characters"}')
+  })
+
+  it('does not shorten its own markers', () => {
+    expect(stringify([1, 2, 3], { maxArrayLength: 1, maxStringLength: 2 })).toBe('[1,"... 2 more items"]')
+  })
+
+  it('does not shorten redaction replacements', () => {
+    const data = { s: 'secret value', card: '4111111111111111', note: 'hello world' }
+    expect(stringify(data, { redact: ['s'], maxStringLength: 5 }))
+      .toBe('{"s":"[REDACTED]","card":"41111... 11 more characters","note":"hello... 6 more characters"}')
+    expect(stringify(data, { redact: { match: ['card'], replacement: { type: 'mask' } }, maxStringLength: 5 }))
+      .toBe('{"s":"secre... 7 more characters","card":"************1111","note":"hello... 6 more characters"}')
+  })
+
+  it('cuts output at maxOutputLength and stays valid JSON', () => {
+    for (const max of [20, 50, 100, 1000]) {
+      const json = stringify({ users }, { maxOutputLength: max })!
+      expect(json.length).toBeLessThanOrEqual(max)
+      expect(parse(json)).not.toBeNull()
+      expect(json).toContain('[Truncated]')
+    }
+  })
+
+  it('cuts indented output the same way', () => {
+    expect(stringify({ users }, { maxOutputLength: 120, space: 2 })).toBe([
+      '{',
+      '  "users": [',
+      '    {',
+      '      "id": 0,',
+      '      "name": "user0",',
+      '      "tags": [',
+      '        "[Truncated]"',
+      '      ]',
+      '    }',
+      '  ]',
+      '}'
+    ].join('\n'))
+  })
+
+  it('keeps the whole marker below its own length', () => {
+    expect(stringify({ users }, { maxOutputLength: 5 })).toBe('"[Truncated]"')
+  })
+
+  it('leaves output within maxOutputLength alone', () => {
+    expect(stringify({ a: 1 }, { maxOutputLength: 7 })).toBe('{"a":1}')
+  })
+
+  it('combines with circular references', () => {
+    const node: Record<string, unknown> = { list: [1, 2, 3] }
+    node.self = node
+    expect(stringify(node, { maxArrayLength: 1 })).toBe('{"list":[1,"... 2 more items"],"self":"[Circular]"}')
+  })
+})
+
+describe('tryStringify truncated paths', () => {
+  it('reports every shortened path', () => {
+    const [result, error, details] = tryStringify(
+      { users, note: 'x'.repeat(20) },
+      { maxArrayLength: 2, maxStringLength: 10, maxDepth: 2 }
+    )
+    expect(error).toBeNull()
+    expect(result).toContain('"... 998 more items"')
+    expect(details?.truncated).toEqual(['users', 'users[0].tags', 'users[1].tags', 'note'])
+  })
+
+  it('reports the container cut by maxOutputLength', () => {
+    const [, , details] = tryStringify({ users }, { maxOutputLength: 100 })
+    expect(details?.truncated).toEqual(['users[1].tags'])
+  })
+
+  it('reports nothing when output is complete', () => {
+    expect(tryStringify({ a: 1 }, { maxDepth: 5 })[2]).toEqual({ truncated: [] })
+  })
+})
+
+describe('truncateString', () => {
+  it('does not split surrogate pairs', () => {
+    expect(truncateString('a😀b', 2)).toBe('a... 3 more characters')
+  })
+})
+
+describe('truncateOutput', () => {
+  it('falls back to a bare marker when nothing else fits', () => {
+    expect(truncateOutput('{"a":[1,2,3]}', 5, '')).toEqual({ text: '"[Truncated]"', path: [] })
+  })
+
+  it('handles escaped quotes and keys', () => {
+    const text = JSON.stringify({ 'k"1': 'v"\\', k2: [true, null, -1.5e3] })
+    const cut = truncateOutput(text, 40, '')
+    expect(cut.text).toBe('{"k\\"1":"v\\"\\\\","k2":["[Truncated]"]}')
+    expect(cut.path).toEqual(['k2'])
+  })
+})
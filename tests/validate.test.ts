@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { tryValidate } from '../src/index'
+import { tryValidate, parse, union, literal, enumOf, nullable } from '../src/index'
 
 describe('tryValidate', () => {
   describe('detailed error messages', () => {
@@ -369,5 +369,105 @@ describe('tryValidate', () => {
       expect(valid).toBe(true)
     })
   })
-})
 
+  describe('abortEarly: false', () => {
+    const schema = { name: 'string', age: 'number', address: { zip: 'number' }, tags: ['string'] }
+
+    it('collects every failing path', () => {
+      const [valid, errors] = tryValidate(
+        { name: 1, age: '30', address: { zip: '1' }, tags: ['a', 2, 'c', false] },
+        schema,
+        { abortEarly: false }
+      )
+      expect(valid).toBe(false)
+      expect(errors?.map(error => error.path)).toEqual(['name', 'age', 'address.zip', 'tags[1]', 'tags[3]'])
+      expect(errors?.[1]).toMatchObject({ expected: 'number', actual: 'string' })
+    })
+
+    it('collects errors inside arrays of objects', () => {
+      const [, errors] = tryValidate(
+        { items: [{ id: '1' }, { id: 2 }, { id: null }] },
+        { items: [{ id: 'number' }] },
+        { abortEarly: false }
+      )
+      expect(errors?.map(error => error.path)).toEqual(['items[0].id', 'items[2].id'])
+    })
+
+    it('stops at maxErrors', () => {
+      const tags = Array.from({ length: 10000 }, (_, i) => i)
+      const [, errors] = tryValidate({ tags }, { tags: ['string'] }, { abortEarly: false, maxErrors: 3 })
+      expect(errors?.map(error => error.path)).toEqual(['tags[0]', 'tags[1]', 'tags[2]'])
+
+      const [, capped] = tryValidate({ tags }, { tags: ['string'] }, { abortEarly: false })
+      expect(capped).toHaveLength(100)
+    })
+
+    it('returns no errors for valid data', () => {
+      expect(tryValidate({ name: 'a', age: 1, address: { zip: 1 }, tags: [] }, schema, { abortEarly: false }))
+        .toEqual([true, null])
+    })
+
+    it('keeps returning the first error by default', () => {
+      const [, error] = tryValidate({ name: 1, age: '30' }, { name: 'string', age: 'number' }, { abortEarly: true })
+      expect(error?.path).toBe('name')
+    })
+  })
+
+  describe('null, integer, literal, enum, union and nullable', () => {
+    it('checks null and integer types', () => {
+      expect(tryValidate({ gone: null, count: 3 }, { gone: 'null', count: 'integer' })).toEqual([true, null])
+      const [, error] = tryValidate({ count: 1.5 }, { count: 'integer' })
+      expect(error).toMatchObject({ path: 'count', expected: 'integer', actual: 'number' })
+      expect(tryValidate({ ids: [1, 2.5] }, { ids: ['integer'] })[1]?.path).toBe('ids[1]')
+      expect(tryValidate({}, { count: '?integer' })[0]).toBe(true)
+    })
+
+    it('checks literals and enums', () => {
+      const schema = { version: literal(2), role: enumOf(['admin', 'user']) }
+      expect(tryValidate({ version: 2, role: 'user' }, schema)[0]).toBe(true)
+
+      const [, errors] = tryValidate({ version: '2', role: 'guest' }, schema, { abortEarly: false })
+      expect(errors).toEqual([
+        { path: 'version', expected: '2', actual: '"2"', message: `Expected 2 at 'version', got "2"` },
+        { path: 'role', expected: '"admin" | "user"', actual: '"guest"', message: `Expected "admin" | "user" at 'role', got "guest"` }
+      ])
+    })
+
+    it('accepts any alternative of a union', () => {
+      const schema = { id: union('string', 'number'), items: [union('string', { name: 'string' })] }
+      expect(tryValidate({ id: 'a', items: ['x', { name: 'y' }] }, schema)[0]).toBe(true)
+      expect(tryValidate({ id: 1, items: [] }, schema)[0]).toBe(true)
+    })
+
+    it('lists every alternative that was tried', () => {
+      const [, error] = tryValidate({ id: { name: 1 } }, { id: union('string', literal(0), { name: 'string' }) })
+      expect(error).toMatchObject({
+        path: 'id',
+        expected: 'string | 0 | object',
+        actual: 'object',
+        message: `Expected string | 0 | object at 'id', got object`
+      })
+      expect(error?.alternatives?.map(alternative => [alternative.path, alternative.expected])).toEqual([
+        ['id', 'string'],
+        ['id', '0'],
+        ['id.name', 'string']
+      ])
+    })
+
+    it('allows null for nullable fields', () => {
+      const schema = { parent: nullable({ id: 'number' }), name: nullable('string') }
+      expect(tryValidate({ parent: null, name: null }, schema)[0]).toBe(true)
+      expect(tryValidate({ parent: { id: 1 }, name: 'a' }, schema)[0]).toBe(true)
+
+      const [, error] = tryValidate({ parent: null, name: 5 }, schema)
+      expect(error).toMatchObject({ path: 'name', expected: 'string | null', actual: 'number' })
+      expect(tryValidate({ parent: null }, schema)[1]?.actual).toBe('undefined')
+    })
+
+    it('works with parse', () => {
+      const schema = { status: enumOf(['on', 'off']), retries: nullable('integer') }
+      expect(parse('{"status":"on","retries":null}', { schema })).toEqual({ status: 'on', retries: null })
+      expect(parse('{"status":"maybe","retries":1}', { schema })).toBe(null)
+    })
+  })
+})